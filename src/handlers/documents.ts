@@ -6,12 +6,91 @@
 
 import fs from "fs/promises";
 import path from "path";
-import { glob } from "glob";
+import { AsyncLocalStorage } from "async_hooks";
+import { glob, hasMagic } from "glob";
 import { createTwoFilesPatch } from "diff";
 import { safeLog } from "../utils/logging.js";
+import {
+  parseFrontmatter,
+  updateFrontmatter,
+  applyFrontmatterOperations,
+  applyMigrationRule,
+} from "../utils/frontmatter.js";
+import {
+  loadMetadataSchema,
+  validateFrontmatter,
+  getRequiredFields,
+  DEFAULT_REQUIRED_FIELDS,
+  METADATA_SCHEMA_FILE,
+} from "../utils/metadata-schema.js";
+import {
+  MarkdownHeading,
+  MarkdownLink,
+  MarkdownSection,
+  findSection,
+  isExternalUrl,
+  slugify,
+  splitWikiTarget,
+  flattenSections,
+  getSections,
+  parseMarkdown,
+  replaceRanges,
+  splitLinkUrl,
+} from "../utils/markdown.js";
+import {
+  LinkContext,
+  createLinkContext,
+  findBrokenLinks,
+  getReferencedPaths,
+  getWikiPageName,
+  resolveLinkPath,
+  rewriteLinks,
+  resolveDocumentLinks,
+  resolveWikiTarget,
+} from "../utils/links.js";
+import { computeContentHash } from "../utils/hash.js";
+import { toPosix } from "../utils/path.js";
+import { HunkResult, applyHunks, parseUnifiedDiff } from "../utils/patch.js";
+import {
+  NAVIGATION_FILE,
+  findNavigationEntries,
+  readNavigationFile,
+  updateNavigationPaths,
+} from "../utils/navigation.js";
+import { createTrashId, getTrashPaths, readTrash } from "../utils/trash.js";
+import {
+  REDIRECTS_FILE,
+  RedirectFormat,
+  addRedirects,
+  formatRedirects,
+  readRedirects,
+} from "../utils/redirects.js";
+import {
+  appendJournalEntry,
+  createJournalFileChange,
+  decodeJournalContent,
+  readJournal,
+  saveJournalEntry,
+} from "../utils/journal.js";
 import { ToolResponse } from "../types/tools.js";
+import { BatchOperation } from "../schemas/tools.js";
+import {
+  MetadataViolation,
+  FrontmatterOperation,
+  FrontmatterMigrationRule,
+  OutlineEntry,
+  SectionEditOperation,
+  DocumentEdit,
+  JournalEntry,
+  JournalFileChange,
+  TrashEntry,
+  Backlink,
+} from "../types/docs.js";
 import { minimatch } from "minimatch";
 
+// Kept for code that imported the frontmatter parser from this module
+export { parseFrontmatter } from "../utils/frontmatter.js";
+
 // File editing and diffing utilities
 function normalizeLineEndings(text: string): string {
   return text.replace(/\r\n/g, "\n");
@@ -20,7 +99,8 @@ function normalizeLineEndings(text: string): string {
 function createUnifiedDiff(
   originalContent: string,
   newContent: string,
-  filepath: string = "file"
+  filepath: string = "file",
+  newFilepath: string = filepath
 ): string {
   // Ensure consistent line endings for diff
   const normalizedOriginal = normalizeLineEndings(originalContent);
@@ -28,7 +108,7 @@ function createUnifiedDiff(
 
   return createTwoFilesPatch(
     filepath,
-    filepath,
+    newFilepath,
     normalizedOriginal,
     normalizedNew,
     "original",
@@ -36,59 +116,658 @@ function createUnifiedDiff(
   );
 }
 
-// Parse frontmatter from markdown content
-export function parseFrontmatter(content: string): {
-  frontmatter: Record<string, any>;
-  content: string;
-} {
-  const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n/;
-  const match = content.match(frontmatterRegex);
+// A place where an edit's oldText matches, as character offsets into the
+// document, with the replacement adjusted to the matched indentation
+interface EditMatch {
+  start: number;
+  end: number;
+  line: number;
+  text: string;
+}
 
-  if (!match) {
-    return { frontmatter: {}, content };
+// Find every non-overlapping match of oldText. Exact matches win; if there
+// are none, fall back to matching line by line with whitespace trimmed.
+function findEditMatches(
+  content: string,
+  oldText: string,
+  newText: string
+): EditMatch[] {
+  if (oldText === "") {
+    throw new Error("Edit oldText must not be empty");
   }
 
-  const frontmatterStr = match[1];
-  const contentWithoutFrontmatter = content.slice(match[0].length);
+  const lineOf = (offset: number) =>
+    content.slice(0, offset).split("\n").length;
+  const matches: EditMatch[] = [];
+
+  for (
+    let index = content.indexOf(oldText);
+    index !== -1;
+    index = content.indexOf(oldText, index + oldText.length)
+  ) {
+    matches.push({
+      start: index,
+      end: index + oldText.length,
+      line: lineOf(index),
+      text: newText,
+    });
+  }
+  if (matches.length > 0) {
+    return matches;
+  }
 
-  // Parse frontmatter as key-value pairs
-  const frontmatter: Record<string, any> = {};
-  const lines = frontmatterStr.split("\n");
+  // Otherwise, try line-by-line matching with flexibility for whitespace
+  const oldLines = oldText.split("\n");
+  const contentLines = content.split("\n");
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of contentLines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
 
-  for (const line of lines) {
-    const colonIndex = line.indexOf(":");
-    if (colonIndex !== -1) {
-      const key = line.slice(0, colonIndex).trim();
-      let value = line.slice(colonIndex + 1).trim();
+  for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+    const isMatch = oldLines.every(
+      (oldLine, j) => oldLine.trim() === contentLines[i + j].trim()
+    );
+    if (!isMatch) {
+      continue;
+    }
 
-      // Handle quoted values
-      if (value.startsWith('"') && value.endsWith('"')) {
-        value = value.slice(1, -1);
+    // Preserve original indentation of first line
+    const originalIndent = contentLines[i].match(/^\s*/)?.[0] || "";
+    const newLines = newText.split("\n").map((line, j) => {
+      if (j === 0) return originalIndent + line.trimStart();
+      // For subsequent lines, try to preserve relative indentation
+      const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || "";
+      const newIndent = line.match(/^\s*/)?.[0] || "";
+      if (oldIndent && newIndent) {
+        const relativeIndent = newIndent.length - oldIndent.length;
+        return (
+          originalIndent +
+          " ".repeat(Math.max(0, relativeIndent)) +
+          line.trimStart()
+        );
       }
+      return line;
+    });
+
+    const lastLine = i + oldLines.length - 1;
+    matches.push({
+      start: lineStarts[i],
+      end: lineStarts[lastLine] + contentLines[lastLine].length,
+      line: i + 1,
+      text: newLines.join("\n"),
+    });
+    i = lastLine;
+  }
 
-      // Handle arrays
-      if (value.startsWith("[") && value.endsWith("]")) {
-        try {
-          value = JSON.parse(value);
-        } catch {
-          // Keep as string if parsing fails
-        }
-      }
+  return matches;
+}
+
+// Pick the matches an edit applies to, refusing to guess between several
+function selectEditMatches(
+  matches: EditMatch[],
+  edit: DocumentEdit
+): EditMatch[] {
+  const lines = matches.map((match) => match.line).join(", ");
+
+  if (edit.replaceAll) {
+    return matches;
+  }
+
+  if (edit.occurrence !== undefined && edit.startLine !== undefined) {
+    throw new Error("Use either occurrence or startLine for an edit, not both");
+  }
+
+  if (edit.occurrence !== undefined) {
+    const match = matches[edit.occurrence - 1];
+    if (!match) {
+      throw new Error(
+        `Occurrence ${edit.occurrence} requested but found only ${matches.length} matches (lines ${lines}) for edit:\n${edit.oldText}`
+      );
+    }
+    return [match];
+  }
+
+  if (edit.startLine !== undefined) {
+    // Use the match closest to the hint; a tie is still ambiguous
+    const distance = (match: EditMatch) =>
+      Math.abs(match.line - edit.startLine!);
+    const closest = Math.min(...matches.map(distance));
+    const nearest = matches.filter((match) => distance(match) === closest);
+    if (nearest.length === 1) {
+      return nearest;
+    }
+    throw new Error(
+      `Edit matches equally close to line ${edit.startLine} at lines ${nearest
+        .map((match) => match.line)
+        .join(", ")}. Use occurrence to choose one:\n${edit.oldText}`
+    );
+  }
+
+  if (matches.length > 1) {
+    throw new Error(
+      `Found ${matches.length} matches for edit at lines ${lines}. ` +
+        `Use occurrence, startLine or replaceAll to choose:\n${edit.oldText}`
+    );
+  }
+
+  return matches;
+}
+
+// Ranges of a document a find-and-replace may touch: everything, only the
+// contents of code blocks, or everything outside them
+function getCodeSegments(
+  content: string,
+  codeBlocks: "include" | "skip" | "only"
+): Array<{ start: number; end: number }> {
+  if (codeBlocks === "include") {
+    return [{ start: 0, end: content.length }];
+  }
+
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+  const offsetOfLine = (line: number) =>
+    line > lineStarts.length ? content.length : lineStarts[line - 1];
+
+  // Code ranges cover the code itself, not the fence lines
+  const code = parseMarkdown(content).codeBlocks.map((block) => ({
+    start: offsetOfLine(block.fenced ? block.startLine + 1 : block.startLine),
+    end: offsetOfLine(block.fenced ? block.endLine : block.endLine + 1),
+  }));
+  if (codeBlocks === "only") {
+    return code.filter((range) => range.end > range.start);
+  }
+
+  const prose: Array<{ start: number; end: number }> = [];
+  let position = 0;
+  for (const range of code) {
+    prose.push({ start: position, end: range.start });
+    position = range.end;
+  }
+  prose.push({ start: position, end: content.length });
+  return prose.filter((range) => range.end > range.start);
+}
+
+// Files touched while changes are being recorded, so they can be rolled back
+interface ChangeRecording {
+  // Original content of each touched file, or null if it did not exist
+  originals: Map<string, Buffer | null>;
+  createdDirectories: string[];
+}
+
+// How many read versions to keep for conflict diffs
+const MAX_KNOWN_VERSIONS = 100;
+
+// How much text to show on each side of a link in backlink context
+const LINK_CONTEXT_CHARS = 80;
+
+// Files the service itself reads, which are never unused assets
+const SERVICE_FILES = [METADATA_SCHEMA_FILE, NAVIGATION_FILE, REDIRECTS_FILE];
+
+// Backtick fence long enough to wrap text in a code block
+function fenceFor(text: string): string {
+  let numBackticks = 3;
+  while (text.includes("`".repeat(numBackticks))) {
+    numBackticks++;
+  }
+  return "`".repeat(numBackticks);
+}
+
+// Wrap a diff in a fenced code block with enough backticks to contain it
+function formatDiff(diff: string): string {
+  const fence = fenceFor(diff);
+  return `${fence}diff\n${diff}${fence}\n\n`;
+}
+
+// Wrap lines of a document in a fenced code block
+function formatCodeBlock(text: string): string {
+  const fence = fenceFor(text);
+  return `${fence}\n${text}\n${fence}`;
+}
+
+// The source line(s) a link is on, shortened around the link when long
+function getLinkContext(content: string, link: MarkdownLink): string {
+  const lineStart = content.lastIndexOf("\n", link.start - 1) + 1;
+  const lineEnd = content.indexOf("\n", link.end);
+  let start = lineStart;
+  let end = lineEnd === -1 ? content.length : lineEnd;
+  const prefix = link.start - start > LINK_CONTEXT_CHARS ? "…" : "";
+  const suffix = end - link.end > LINK_CONTEXT_CHARS ? "…" : "";
+  start = Math.max(start, link.start - LINK_CONTEXT_CHARS);
+  end = Math.min(end, link.end + LINK_CONTEXT_CHARS);
+
+  return (
+    prefix +
+    content
+      .slice(start, end)
+      .replace(/\s*\n\s*/g, " ")
+      .trim() +
+    suffix
+  );
+}
+
+// Human-readable summary of a frontmatter migration rule
+function describeMigrationRule(rule: FrontmatterMigrationRule): string {
+  const scope = rule.glob ? ` (${rule.glob})` : "";
+  switch (rule.type) {
+    case "rename":
+      return `rename ${rule.from} to ${rule.to}${scope}`;
+    case "map_values":
+      return `map values of ${rule.key}${scope}`;
+    case "coerce":
+      return `coerce ${rule.key} to ${rule.to}${scope}`;
+    case "delete":
+      return `delete ${rule.key}${scope}`;
+  }
+}
+
+// Count whitespace-separated words
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Find the text of the first level-one heading outside code blocks
+function extractFirstHeading(body: string): string | null {
+  const heading = parseMarkdown(body).headings.find((h) => h.level === 1);
+  return heading ? heading.text : null;
+}
+
+// Find the first paragraph of prose and flatten it into a one-line summary
+function extractFirstParagraph(body: string, maxLength = 200): string | null {
+  const lines = body.split("\n");
+  const paragraph: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (/^(```|~~~)/.test(trimmed)) {
+      inCodeBlock = !inCodeBlock;
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    // Headings, lists, quotes, tables, HTML and rules are not prose
+    const isProse =
+      trimmed !== "" &&
+      !/^(#|[-*+]\s|\d+[.)]\s|>|\||<|---|\*\*\*)/.test(trimmed);
 
-      frontmatter[key] = value;
+    if (isProse) {
+      paragraph.push(trimmed);
+    } else if (paragraph.length > 0) {
+      break;
     }
   }
 
-  return { frontmatter, content: contentWithoutFrontmatter };
+  if (paragraph.length === 0) {
+    return null;
+  }
+
+  const text = paragraph
+    .join(" ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const truncated = text.slice(0, maxLength);
+  return `${truncated.slice(0, truncated.lastIndexOf(" ")) || truncated}...`;
+}
+
+// In a batch, a bulk frontmatter change that fails on some documents fails
+// as a whole, so the batch is rolled back
+function failOnDocumentErrors(
+  response: ToolResponse,
+  tool: string
+): ToolResponse {
+  const failed: Array<{ path: string; error?: string }> = [
+    ...(response.metadata?.failedFiles ?? []),
+    ...(response.metadata?.files ?? []),
+  ].filter((file) => file.error);
+  if (response.isError || failed.length === 0) {
+    return response;
+  }
+
+  return {
+    ...response,
+    content: [
+      {
+        type: "text",
+        text:
+          `Error running ${tool}: failed on ${failed.length} documents:\n` +
+          failed.map((file) => `- ${file.path}: ${file.error}`).join("\n"),
+      },
+    ],
+    isError: true,
+  };
+}
+
+// The handler's private change methods, for the decorators below. They are
+// assigned in a static block of DocumentHandler.
+let recordChanges: (
+  handler: DocumentHandler,
+  tool: string,
+  summary: string,
+  run: () => Promise<ToolResponse>
+) => Promise<ToolResponse>;
+let serializeChange: <T>(
+  handler: DocumentHandler,
+  run: () => Promise<T>
+) => Promise<T>;
+
+/**
+ * Method decorator that records the files a change touches as one journal
+ * entry
+ * @param tool Tool the entry is listed under
+ * @param summarize Describes the change from the method's leading arguments
+ */
+function recorded<Args extends unknown[]>(
+  tool: string,
+  summarize: (...args: Args) => string
+) {
+  return function (
+    method: (
+      this: DocumentHandler,
+      ...args: [...Args, ...never[]]
+    ) => Promise<ToolResponse>,
+    _context: ClassMethodDecoratorContext<DocumentHandler>
+  ) {
+    return function (
+      this: DocumentHandler,
+      ...args: [...Args, ...never[]]
+    ): Promise<ToolResponse> {
+      // The arguments after the ones summarize declares are not passed to it
+      const summary = summarize(...(args as unknown as Args));
+      return recordChanges(this, tool, summary, () => method.apply(this, args));
+    };
+  };
+}
+
+/**
+ * Method decorator that waits for the changes requested before a call to
+ * finish before running it
+ */
+function serialized<Args extends unknown[], Result>(
+  method: (this: DocumentHandler, ...args: Args) => Promise<Result>,
+  _context: ClassMethodDecoratorContext<DocumentHandler>
+) {
+  return function (this: DocumentHandler, ...args: Args): Promise<Result> {
+    return serializeChange(this, () => method.apply(this, args));
+  };
 }
 
 export class DocumentHandler {
   private docsDir: string;
+  // Recently read or written content by hash, so conflicts can show what
+  // changed since the caller's version
+  private knownVersions = new Map<string, string>();
+  // Recording of the change running in the current async context
+  private recording = new AsyncLocalStorage<ChangeRecording>();
+  // Changes run one at a time, in the order they were requested
+  private changeQueue: Promise<unknown> = Promise.resolve();
+
+  static {
+    recordChanges = (handler, tool, summary, run) =>
+      handler.recordChanges(tool, summary, run);
+    serializeChange = (handler, run) => handler.serializeChange(run);
+  }
 
   constructor(docsDir: string) {
     this.docsDir = docsDir;
   }
 
+  /**
+   * Hash content and remember it as a known version
+   * @private
+   */
+  private trackVersion(content: string): string {
+    const hash = computeContentHash(content);
+    this.knownVersions.delete(hash);
+    this.knownVersions.set(hash, content);
+    if (this.knownVersions.size > MAX_KNOWN_VERSIONS) {
+      this.knownVersions.delete(this.knownVersions.keys().next().value!);
+    }
+    return hash;
+  }
+
+  /**
+   * Reject the operation if the file no longer has the expected hash
+   * @private
+   */
+  private async checkExpectedHash(
+    validPath: string,
+    docPath: string,
+    expectedHash?: string
+  ): Promise<void> {
+    if (!expectedHash) {
+      return;
+    }
+
+    let current: string;
+    try {
+      current = await fs.readFile(validPath, "utf-8");
+    } catch {
+      throw new Error(
+        `Conflict: ${docPath} does not exist (expected hash ${expectedHash})`
+      );
+    }
+
+    const currentHash = computeContentHash(current);
+    if (currentHash === expectedHash) {
+      return;
+    }
+
+    let message = `Conflict: ${docPath} has changed since it was read (expected hash ${expectedHash}, current hash ${currentHash})`;
+    const previous = this.knownVersions.get(expectedHash);
+    if (previous !== undefined) {
+      message += `\n\nChanges since it was read:\n${formatDiff(
+        createUnifiedDiff(previous, current, docPath)
+      )}`;
+    }
+    throw new Error(message);
+  }
+
+  /**
+   * Remember a file's original content the first time it is touched while
+   * recording
+   * @private
+   */
+  private async recordOriginal(filePath: string): Promise<void> {
+    const recording = this.recording.getStore();
+    if (!recording || recording.originals.has(filePath)) {
+      return;
+    }
+
+    try {
+      recording.originals.set(filePath, await fs.readFile(filePath));
+    } catch {
+      recording.originals.set(filePath, null);
+    }
+  }
+
+  /**
+   * Write a file, recording its original content
+   * @private
+   */
+  private async writeFile(filePath: string, content: string): Promise<void> {
+    await this.recordOriginal(filePath);
+    await fs.writeFile(filePath, content, "utf-8");
+  }
+
+  /**
+   * Delete a file, recording its original content
+   * @private
+   */
+  private async removeFile(filePath: string): Promise<void> {
+    await this.recordOriginal(filePath);
+    await fs.unlink(filePath);
+  }
+
+  /**
+   * Move a file, recording the original content of both paths
+   * @private
+   */
+  private async renameFile(from: string, to: string): Promise<void> {
+    await this.recordOriginal(from);
+    await this.recordOriginal(to);
+    await fs.rename(from, to);
+  }
+
+  /**
+   * Create a directory and its parents, recording the ones that are new
+   * @private
+   */
+  private async makeDirectory(dirPath: string): Promise<void> {
+    const created = await fs.mkdir(dirPath, { recursive: true });
+    const recording = this.recording.getStore();
+    if (created && recording) {
+      // The first new folder, and the requested one if it is nested deeper
+      recording.createdDirectories.push(
+        ...new Set([created, path.resolve(dirPath)])
+      );
+    }
+  }
+
+  /**
+   * Run a change once the changes requested before it have finished.
+   * Changes made from within another change run straight away.
+   * @private
+   */
+  private serializeChange<T>(run: () => Promise<T>): Promise<T> {
+    if (this.recording.getStore()) {
+      return run();
+    }
+
+    const result = this.changeQueue.then(run);
+    this.changeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Run a change, recording the files it touches in the journal. Changes
+   * made from within another recorded change, such as the operations of a
+   * batch, belong to that change's recording.
+   * @private
+   */
+  private async recordChanges(
+    tool: string,
+    summary: string,
+    run: () => Promise<ToolResponse>
+  ): Promise<ToolResponse> {
+    if (this.recording.getStore()) {
+      return run();
+    }
+
+    return this.serializeChange(async () => {
+      const recording: ChangeRecording = {
+        originals: new Map(),
+        createdDirectories: [],
+      };
+      try {
+        return await this.recording.run(recording, run);
+      } finally {
+        await this.journalRecording(tool, summary, recording);
+      }
+    });
+  }
+
+  /**
+   * Add the files a recording changed to the journal, if it changed any
+   * @private
+   */
+  private async journalRecording(
+    tool: string,
+    summary: string,
+    recording: ChangeRecording
+  ): Promise<void> {
+    try {
+      const files: JournalFileChange[] = [];
+      for (const [filePath, original] of recording.originals) {
+        const relativePath = this.getJournalPath(filePath);
+        if (relativePath === null) {
+          continue;
+        }
+
+        let current: Buffer | null = null;
+        try {
+          current = await fs.readFile(filePath);
+        } catch {
+          // The file was deleted
+        }
+
+        const unchanged =
+          original === null || current === null
+            ? original === current
+            : original.equals(current);
+        if (!unchanged) {
+          files.push(createJournalFileChange(relativePath, original, current));
+        }
+      }
+
+      const createdDirectories = recording.createdDirectories
+        .map((dirPath) => this.getJournalPath(dirPath))
+        .filter((dirPath): dirPath is string => dirPath !== null);
+
+      if (files.length === 0 && createdDirectories.length === 0) {
+        return;
+      }
+
+      await appendJournalEntry(this.docsDir, {
+        timestamp: new Date().toISOString(),
+        tool,
+        summary,
+        files: files.sort((a, b) => a.path.localeCompare(b.path)),
+        createdDirectories,
+      });
+    } catch (error) {
+      // The change itself succeeded, so only report the journal failure
+      safeLog(`Error writing change journal: ${error}`);
+    }
+  }
+
+  /**
+   * Path of a file relative to the docs directory, or null for files
+   * outside it (such as consolidated output written relative to the working
+   * directory), which undo and redo cannot reach
+   * @private
+   */
+  private getJournalPath(filePath: string): string | null {
+    const relativePath = path.relative(this.docsDir, filePath);
+    return relativePath === ".." ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+      ? null
+      : relativePath;
+  }
+
+  /**
+   * Put every file touched during a recording back the way it was
+   * @private
+   */
+  private async restoreRecording(recording: ChangeRecording): Promise<void> {
+    for (const [filePath, original] of recording.originals) {
+      if (original === null) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, original);
+      }
+    }
+
+    for (const dirPath of [...recording.createdDirectories].reverse()) {
+      await fs.rm(dirPath, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Validates that a path is within the docs directory
    */
@@ -112,17 +791,91 @@ export class DocumentHandler {
 
   /**
    * Read a document from the docs directory
+   * @param docPath Path to the document
+   * @param options Optional slice to return: a section by anchor or heading
+   * path, a 1-based line offset and line limit, and/or a token budget
    */
-  async readDocument(docPath: string): Promise<ToolResponse> {
+  async readDocument(
+    docPath: string,
+    options: {
+      section?: string;
+      offset?: number;
+      limit?: number;
+      maxTokens?: number;
+    } = {}
+  ): Promise<ToolResponse> {
     try {
       const validPath = await this.validatePath(docPath);
       const content = await fs.readFile(validPath, "utf-8");
+      const lines = content.split("\n");
+
+      // The range the request is about: a section or the whole document
+      let rangeStart = 1;
+      let rangeEnd = lines.length;
+      if (options.section) {
+        const sections = getSections(content);
+        const section = findSection(sections, options.section);
+        if (!section) {
+          const available = flattenSections(sections)
+            .map((candidate) => `#${candidate.slug}`)
+            .join(", ");
+          throw new Error(
+            `Section not found: ${options.section}. Available sections: ${
+              available || "none"
+            }`
+          );
+        }
+        rangeStart = section.startLine;
+        rangeEnd = section.endLine;
+      }
+
+      const startLine = Math.max(rangeStart, options.offset ?? rangeStart);
+      if (startLine > rangeEnd) {
+        throw new Error(
+          `Offset ${options.offset} is past the end of the ${
+            options.section ? "section" : "document"
+          } (line ${rangeEnd})`
+        );
+      }
+
+      let endLine = options.limit
+        ? Math.min(rangeEnd, startLine + options.limit - 1)
+        : rangeEnd;
+
+      // Drop lines from the end until the slice fits the token budget,
+      // always returning at least one line
+      if (options.maxTokens) {
+        let tokens = 0;
+        for (let line = startLine; line <= endLine; line++) {
+          tokens += this.estimateTokens(lines[line - 1] + "\n");
+          if (tokens > options.maxTokens && line > startLine) {
+            endLine = line - 1;
+            break;
+          }
+        }
+      }
+
+      const isPartial = startLine !== 1 || endLine !== lines.length;
+      const hasMore = endLine < rangeEnd;
 
       return {
-        content: [{ type: "text", text: content }],
+        content: [
+          {
+            type: "text",
+            text: isPartial
+              ? lines.slice(startLine - 1, endLine).join("\n")
+              : content,
+          },
+        ],
         metadata: {
           path: docPath,
           ...parseFrontmatter(content).frontmatter,
+          hash: this.trackVersion(content),
+          startLine,
+          endLine,
+          totalLines: lines.length,
+          hasMore,
+          ...(hasMore ? { nextOffset: endLine + 1 } : {}),
         },
       };
     } catch (error) {
@@ -137,27 +890,125 @@ export class DocumentHandler {
     }
   }
 
+  /**
+   * Get the heading outline of a document, or of every document in a folder
+   */
+  async getDocumentOutline(target = ""): Promise<ToolResponse> {
+    try {
+      const files = await this.resolveDocumentPaths(target);
+      const documents: Array<{
+        path: string;
+        lineCount: number;
+        wordCount: number;
+        tokenEstimate: number;
+        outline: OutlineEntry[];
+      }> = [];
+
+      for (const file of files) {
+        const content = await fs.readFile(
+          path.join(this.docsDir, file),
+          "utf-8"
+        );
+        const lines = content.split("\n");
+
+        const toEntry = (section: MarkdownSection): OutlineEntry => {
+          const text = lines
+            .slice(section.startLine - 1, section.endLine)
+            .join("\n");
+          return {
+            level: section.level,
+            text: section.text,
+            slug: section.slug,
+            startLine: section.startLine,
+            endLine: section.endLine,
+            wordCount: countWords(text),
+            tokenEstimate: this.estimateTokens(text),
+            children: section.children.map(toEntry),
+          };
+        };
+
+        documents.push({
+          path: file,
+          lineCount: lines.length,
+          wordCount: countWords(content),
+          tokenEstimate: this.estimateTokens(content),
+          outline: getSections(content).map(toEntry),
+        });
+      }
+
+      const formatEntries = (
+        entries: OutlineEntry[],
+        depth: number
+      ): string[] =>
+        entries.flatMap((entry) => [
+          `${"  ".repeat(depth)}- ${entry.text} [#${entry.slug}] lines ${
+            entry.startLine
+          }-${entry.endLine}, ${entry.wordCount} words, ~${
+            entry.tokenEstimate
+          } tokens`,
+          ...formatEntries(entry.children, depth + 1),
+        ]);
+
+      const text = documents
+        .map((doc) =>
+          [
+            `${doc.path} (${doc.lineCount} lines, ~${doc.tokenEstimate} tokens)`,
+            ...(doc.outline.length > 0
+              ? formatEntries(doc.outline, 0)
+              : ["(no headings)"]),
+          ].join("\n")
+        )
+        .join("\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: text || `No documents found at ${target || "docs root"}`,
+          },
+        ],
+        metadata: { documents },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error getting document outline: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
   /**
    * Write a document to the docs directory
    */
+  @recorded("write_document", (docPath: string) => docPath)
   async writeDocument(
     docPath: string,
     content: string,
-    createDirectories = true
+    createDirectories = true,
+    expectedHash?: string
   ): Promise<ToolResponse> {
     try {
       const validPath = await this.validatePath(docPath);
+      await this.checkExpectedHash(validPath, docPath, expectedHash);
 
       // Create parent directories if needed
       if (createDirectories) {
         const dirPath = path.dirname(validPath);
-        await fs.mkdir(dirPath, { recursive: true });
+        await this.makeDirectory(dirPath);
       }
 
-      await fs.writeFile(validPath, content, "utf-8");
+      await this.writeFile(validPath, content);
 
       return {
         content: [{ type: "text", text: `Successfully wrote to ${docPath}` }],
+        metadata: { path: docPath, hash: this.trackVersion(content) },
       };
     } catch (error) {
       const errorMessage =
@@ -174,13 +1025,16 @@ export class DocumentHandler {
   /**
    * Apply edits to a document
    */
+  @recorded("edit_document", (docPath: string) => docPath)
   async editDocument(
     docPath: string,
-    edits: Array<{ oldText: string; newText: string }>,
-    dryRun = false
+    edits: DocumentEdit[],
+    dryRun = false,
+    expectedHash?: string
   ): Promise<ToolResponse> {
     try {
       const validPath = await this.validatePath(docPath);
+      await this.checkExpectedHash(validPath, docPath, expectedHash);
 
       // Read file content and normalize line endings
       const content = normalizeLineEndings(
@@ -189,91 +1043,493 @@ export class DocumentHandler {
 
       // Apply edits sequentially
       let modifiedContent = content;
+      const appliedEdits: Array<{ lines: number[] }> = [];
       for (const edit of edits) {
-        const normalizedOld = normalizeLineEndings(edit.oldText);
-        const normalizedNew = normalizeLineEndings(edit.newText);
-
-        // If exact match exists, use it
-        if (modifiedContent.includes(normalizedOld)) {
-          modifiedContent = modifiedContent.replace(
-            normalizedOld,
-            normalizedNew
-          );
-          continue;
+        const matches = findEditMatches(
+          modifiedContent,
+          normalizeLineEndings(edit.oldText),
+          normalizeLineEndings(edit.newText)
+        );
+
+        if (matches.length === 0) {
+          throw new Error(
+            `Could not find exact match for edit:\n${edit.oldText}`
+          );
         }
 
-        // Otherwise, try line-by-line matching with flexibility for whitespace
-        const oldLines = normalizedOld.split("\n");
-        const contentLines = modifiedContent.split("\n");
-        let matchFound = false;
+        const selected = selectEditMatches(matches, edit);
+        modifiedContent = replaceRanges(
+          modifiedContent,
+          selected.map((match) => ({
+            start: match.start,
+            end: match.end,
+            text: match.text,
+          }))
+        );
+        appliedEdits.push({ lines: selected.map((match) => match.line) });
+      }
 
-        for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-          const potentialMatch = contentLines.slice(i, i + oldLines.length);
+      // Create unified diff
+      const diff = createUnifiedDiff(content, modifiedContent, docPath);
 
-          // Compare lines with normalized whitespace
-          const isMatch = oldLines.every((oldLine, j) => {
-            const contentLine = potentialMatch[j];
-            return oldLine.trim() === contentLine.trim();
-          });
+      const formattedDiff = formatDiff(diff);
 
-          if (isMatch) {
-            // Preserve original indentation of first line
-            const originalIndent = contentLines[i].match(/^\s*/)?.[0] || "";
-            const newLines = normalizedNew.split("\n").map((line, j) => {
-              if (j === 0) return originalIndent + line.trimStart();
-              // For subsequent lines, try to preserve relative indentation
-              const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || "";
-              const newIndent = line.match(/^\s*/)?.[0] || "";
-              if (oldIndent && newIndent) {
-                const relativeIndent = newIndent.length - oldIndent.length;
-                return (
-                  originalIndent +
-                  " ".repeat(Math.max(0, relativeIndent)) +
-                  line.trimStart()
-                );
-              }
-              return line;
-            });
+      if (!dryRun) {
+        await this.writeFile(validPath, modifiedContent);
+      }
 
-            contentLines.splice(i, oldLines.length, ...newLines);
-            modifiedContent = contentLines.join("\n");
-            matchFound = true;
-            break;
-          }
-        }
+      return {
+        content: [{ type: "text", text: formattedDiff }],
+        metadata: {
+          path: docPath,
+          dryRun,
+          edits: appliedEdits,
+          ...(dryRun ? {} : { hash: this.trackVersion(modifiedContent) }),
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error editing document: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
 
-        if (!matchFound) {
-          throw new Error(
-            `Could not find exact match for edit:\n${edit.oldText}`
+  /**
+   * Edit a section addressed by heading anchor or heading path
+   * @param docPath Path to the document
+   * @param section Heading anchor (e.g. #install) or path (e.g. Installation > Linux)
+   * @param operation replace: replace everything under the heading, including
+   * subsections; insert_before / insert_after: add content before the heading
+   * or after the whole section; append: add content at the end of the
+   * section's own text, before its first subsection; delete: remove the
+   * heading and everything under it
+   * @param content Markdown to insert (ignored for delete)
+   * @param dryRun Return the diff without writing the file
+   */
+  @recorded(
+    "edit_section",
+    (docPath: string, section: string) => `${docPath} ${section}`
+  )
+  async editSection(
+    docPath: string,
+    section: string,
+    operation: SectionEditOperation,
+    content = "",
+    dryRun = false
+  ): Promise<ToolResponse> {
+    try {
+      const validPath = await this.validatePath(docPath);
+      const original = normalizeLineEndings(
+        await fs.readFile(validPath, "utf-8")
+      );
+
+      const target = findSection(getSections(original), section);
+      if (!target) {
+        throw new Error(`Section not found: ${section}`);
+      }
+      if (operation !== "delete" && content.trim() === "") {
+        throw new Error(`Content is required for ${operation}`);
+      }
+
+      const lines = original.split("\n");
+      const block = normalizeLineEndings(content)
+        .replace(/^(\s*\n)+/, "")
+        .trimEnd()
+        .split("\n");
+
+      // Line indexes below are 0-based; section lines are 1-based
+      switch (operation) {
+        case "replace":
+          lines.splice(
+            target.startLine,
+            target.endLine - target.startLine,
+            "",
+            ...block
           );
+          break;
+        case "insert_before":
+          lines.splice(target.startLine - 1, 0, ...block, "");
+          break;
+        case "insert_after":
+          lines.splice(target.endLine, 0, "", ...block);
+          break;
+        case "append": {
+          let ownEnd =
+            target.children.length > 0
+              ? target.children[0].startLine - 1
+              : target.endLine;
+          while (ownEnd > target.startLine && lines[ownEnd - 1].trim() === "") {
+            ownEnd--;
+          }
+          lines.splice(ownEnd, 0, "", ...block);
+          break;
+        }
+        case "delete": {
+          let from = target.startLine - 1;
+          let to = target.endLine;
+          // Take the blank lines that separated the section along with it
+          while (to < lines.length - 1 && lines[to].trim() === "") {
+            to++;
+          }
+          if (to === lines.length - 1) {
+            while (from > 0 && lines[from - 1].trim() === "") {
+              from--;
+            }
+          }
+          lines.splice(from, to - from);
+          break;
         }
       }
 
-      // Create unified diff
-      const diff = createUnifiedDiff(content, modifiedContent, docPath);
+      const modifiedContent = lines.join("\n");
+      const diff = createUnifiedDiff(original, modifiedContent, docPath);
+
+      if (!dryRun) {
+        await this.writeFile(validPath, modifiedContent);
+      }
+
+      return {
+        content: [{ type: "text", text: formatDiff(diff) }],
+        metadata: {
+          path: docPath,
+          operation,
+          section: {
+            text: target.text,
+            slug: target.slug,
+            startLine: target.startLine,
+            endLine: target.endLine,
+          },
+          dryRun,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error editing section: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Find and replace text across documents
+   * @param pattern Literal text, or a regular expression when options.regex is set
+   * @param replacement Replacement text; with regex, $1 and $<name> insert capture groups
+   * @param options.target Document path, folder or glob pattern
+   * @param options.codeBlocks include: replace everywhere; skip: leave fenced
+   * and indented code blocks alone; only: replace inside code blocks only
+   * @param options.dryRun Return the combined diff without writing files
+   */
+  @recorded(
+    "replace_across_documents",
+    (
+      pattern: string,
+      _replacement: string,
+      options: { target?: string } = {}
+    ) => `${pattern} in ${options.target ?? "**/*.md"}`
+  )
+  async replaceAcrossDocuments(
+    pattern: string,
+    replacement: string,
+    options: {
+      target?: string;
+      regex?: boolean;
+      caseSensitive?: boolean;
+      codeBlocks?: "include" | "skip" | "only";
+      dryRun?: boolean;
+    } = {}
+  ): Promise<ToolResponse> {
+    const {
+      target = "**/*.md",
+      regex = false,
+      caseSensitive = true,
+      codeBlocks = "include",
+      dryRun = true,
+    } = options;
+
+    try {
+      let matcher: RegExp;
+      try {
+        matcher = new RegExp(
+          regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          caseSensitive ? "gm" : "gim"
+        );
+      } catch (error) {
+        throw new Error(
+          `Invalid regular expression: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      if ("".search(matcher) !== -1) {
+        throw new Error(
+          `Pattern ${pattern} matches empty text; it must match at least one character`
+        );
+      }
+
+      const files = await this.resolveDocumentPaths(target);
+      const results: Array<{ path: string; matches: number }> = [];
+      const updates: Array<{ filePath: string; content: string }> = [];
+      let diffs = "";
 
-      // Format diff with appropriate number of backticks
-      let numBackticks = 3;
-      while (diff.includes("`".repeat(numBackticks))) {
-        numBackticks++;
+      for (const file of files) {
+        const filePath = path.join(this.docsDir, file);
+        const content = await fs.readFile(filePath, "utf-8");
+
+        let matches = 0;
+        const replacements = getCodeSegments(content, codeBlocks).map(
+          (segment) => {
+            const text = content.slice(segment.start, segment.end);
+            const found: string[] = text.match(matcher) ?? [];
+            if (found.includes("")) {
+              throw new Error(
+                `Pattern ${pattern} matches empty text in ${file}; it must match at least one character`
+              );
+            }
+            matches += found.length;
+            return {
+              ...segment,
+              // Literal replacements must not expand $ patterns
+              text: regex
+                ? text.replace(matcher, replacement)
+                : text.replace(matcher, () => replacement),
+            };
+          }
+        );
+
+        const updatedContent = replaceRanges(content, replacements);
+        if (matches > 0) {
+          results.push({ path: file, matches });
+        }
+        if (updatedContent !== content) {
+          diffs += createUnifiedDiff(content, updatedContent, file);
+          updates.push({ filePath, content: updatedContent });
+        }
       }
-      const formattedDiff = `${"`".repeat(
-        numBackticks
-      )}diff\n${diff}${"`".repeat(numBackticks)}\n\n`;
 
+      // Write only once every file has been checked
       if (!dryRun) {
-        await fs.writeFile(validPath, modifiedContent, "utf-8");
+        for (const update of updates) {
+          await this.writeFile(update.filePath, update.content);
+        }
       }
 
+      const totalMatches = results.reduce(
+        (total, result) => total + result.matches,
+        0
+      );
+      const text = `${
+        dryRun ? "Would replace" : "Replaced"
+      } ${totalMatches} matches in ${results.length} of ${
+        files.length
+      } documents`;
+
       return {
-        content: [{ type: "text", text: formattedDiff }],
+        content: [
+          {
+            type: "text",
+            text: diffs ? `${text}\n\n${formatDiff(diffs)}` : text,
+          },
+        ],
+        metadata: {
+          target,
+          dryRun,
+          totalMatches,
+          files: results,
+        },
       };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          { type: "text", text: `Error editing document: ${errorMessage}` },
+          { type: "text", text: `Error replacing text: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Apply a unified diff covering one or more documents. Nothing is written
+   * unless every hunk applies.
+   * @param patch Unified diff, e.g. from edit_document or git diff
+   * @param dryRun Report the result without writing
+   * @param fuzz How many context lines at each end of a hunk may be ignored
+   */
+  @recorded("apply_patch", () => "unified diff")
+  async applyPatch(
+    patch: string,
+    dryRun = false,
+    fuzz = 2
+  ): Promise<ToolResponse> {
+    try {
+      const filePatches = parseUnifiedDiff(patch);
+      if (filePatches.length === 0) {
+        throw new Error("No file changes found in patch");
+      }
+
+      // Content of each touched file after the patch, null when deleted;
+      // later patches to the same file apply on top of earlier ones
+      const originals = new Map<string, string | null>();
+      const updated = new Map<string, string | null>();
+      const readCurrent = async (docPath: string) => {
+        if (!updated.has(docPath)) {
+          let content: string | null = null;
+          try {
+            content = await fs.readFile(
+              await this.validatePath(docPath),
+              "utf-8"
+            );
+          } catch {
+            // The file does not exist yet
+          }
+          originals.set(docPath, content);
+          updated.set(docPath, content);
+        }
+        return updated.get(docPath)!;
+      };
+
+      const report: string[] = [];
+      const failures: string[] = [];
+      const files: Array<{
+        oldPath: string | null;
+        newPath: string | null;
+        hunks: HunkResult[];
+      }> = [];
+
+      for (const filePatch of filePatches) {
+        const { oldPath, newPath } = filePatch;
+        const label =
+          oldPath && newPath && oldPath !== newPath
+            ? `${oldPath} -> ${newPath}`
+            : (newPath ?? oldPath)!;
+
+        for (const docPath of [oldPath, newPath]) {
+          if (docPath) {
+            await this.validatePath(docPath);
+          }
+        }
+
+        let source = "";
+        if (oldPath) {
+          const current = await readCurrent(oldPath);
+          if (current === null) {
+            failures.push(`${label}: file does not exist`);
+            files.push({ oldPath, newPath, hunks: [] });
+            continue;
+          }
+          source = current;
+        } else if (newPath && (await readCurrent(newPath)) !== null) {
+          failures.push(`${label}: file already exists`);
+          files.push({ oldPath, newPath, hunks: [] });
+          continue;
+        }
+
+        const { content, results } = applyHunks(source, filePatch.hunks, fuzz);
+        files.push({ oldPath, newPath, hunks: results });
+
+        const failed = results.filter((result) => !result.applied);
+        report.push(
+          `${label}: ${results.length - failed.length} of ${
+            results.length
+          } hunks applied`
+        );
+        for (const result of results) {
+          if (result.applied) {
+            const notes = [
+              result.offset ? `offset ${result.offset} lines` : "",
+              result.fuzz ? `fuzz ${result.fuzz}` : "",
+            ].filter(Boolean);
+            report.push(
+              `  hunk ${result.index + 1} applied at line ${result.line}${
+                notes.length > 0 ? ` (${notes.join(", ")})` : ""
+              }`
+            );
+          } else {
+            failures.push(
+              `${label}: hunk ${result.index + 1} ${result.header} failed, ${
+                result.reason
+              }\nExpected:\n${formatCodeBlock(
+                result.expected!.join("\n")
+              )}\nFound:\n${formatCodeBlock(result.found!.join("\n"))}`
+            );
+          }
+        }
+        if (failed.length > 0) {
+          continue;
+        }
+
+        if (oldPath && oldPath !== newPath) {
+          updated.set(oldPath, null);
+        }
+        if (newPath) {
+          updated.set(newPath, content);
+        }
+      }
+
+      if (failures.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Error applying patch: ${failures.length} problems, no files were changed\n\n` +
+                failures.join("\n\n"),
+            },
+          ],
+          metadata: { applied: false, dryRun, files },
+          isError: true,
+        };
+      }
+
+      let diffs = "";
+      const changed: string[] = [];
+      for (const [docPath, content] of updated) {
+        const original = originals.get(docPath) ?? null;
+        if (content === original) {
+          continue;
+        }
+        changed.push(docPath);
+        diffs += createUnifiedDiff(original ?? "", content ?? "", docPath);
+
+        if (!dryRun) {
+          const validPath = await this.validatePath(docPath);
+          if (content === null) {
+            await this.removeFile(validPath);
+          } else {
+            await this.makeDirectory(path.dirname(validPath));
+            await this.writeFile(validPath, content);
+          }
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `${dryRun ? "Would change" : "Changed"} ${
+                changed.length
+              } files\n${report.join("\n")}\n\n` + formatDiff(diffs),
+          },
+        ],
+        metadata: { applied: !dryRun, dryRun, files, changedFiles: changed },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error applying patch: ${errorMessage}` },
         ],
         isError: true,
       };
@@ -344,15 +1600,77 @@ export class DocumentHandler {
   }
 
   /**
-   * Delete a document from the docs directory
+   * Delete a document from the docs directory. The document is moved to the
+   * trash unless permanent is set, and the response warns about links and
+   * navigation entries that will break.
    */
-  async deleteDocument(docPath: string): Promise<ToolResponse> {
+  @recorded("delete_document", (docPath: string) => docPath)
+  async deleteDocument(
+    docPath: string,
+    permanent = false
+  ): Promise<ToolResponse> {
     try {
       const validPath = await this.validatePath(docPath);
-      await fs.unlink(validPath);
+      const relativePath = path.relative(this.docsDir, validPath);
+      const stats = await fs.stat(validPath).catch(() => null);
+      if (!stats?.isFile()) {
+        throw new Error(`Document does not exist: ${docPath}`);
+      }
+
+      const { inboundLinks, navigationEntries } =
+        await this.findBreakingReferences((filePath) => filePath === validPath);
+
+      let trashId: string | undefined;
+      if (permanent) {
+        await this.removeFile(validPath);
+      } else {
+        const content = await fs.readFile(validPath, "utf-8");
+        const entry: TrashEntry = {
+          id: createTrashId(),
+          originalPath: relativePath,
+          deletedAt: new Date().toISOString(),
+          title: parseFrontmatter(content).frontmatter.title,
+        };
+        const trashPaths = getTrashPaths(entry);
+
+        await this.makeDirectory(path.join(this.docsDir, trashPaths.folder));
+        await this.writeFile(
+          path.join(this.docsDir, trashPaths.entryFile),
+          JSON.stringify(entry, null, 2)
+        );
+        await this.renameFile(
+          validPath,
+          path.join(this.docsDir, trashPaths.file)
+        );
+        trashId = entry.id;
+      }
+
+      let text = permanent
+        ? `Successfully deleted ${docPath}`
+        : `Moved ${docPath} to the trash (id ${trashId}); use restore_document to bring it back`;
+      if (inboundLinks.length > 0) {
+        text +=
+          `\n\nWarning: ${inboundLinks.length} links to this document will break:\n` +
+          inboundLinks
+            .map((link) => `- ${link.file}:${link.line} ${link.url}`)
+            .join("\n");
+      }
+      if (navigationEntries.length > 0) {
+        text +=
+          `\n\nWarning: navigation.json still lists this document:\n` +
+          navigationEntries
+            .map((entry) => `- ${[...entry.trail, entry.title].join(" > ")}`)
+            .join("\n");
+      }
 
       return {
-        content: [{ type: "text", text: `Successfully deleted ${docPath}` }],
+        content: [{ type: "text", text }],
+        metadata: {
+          path: docPath,
+          trashId,
+          inboundLinks,
+          navigationEntries,
+        },
       };
     } catch (error) {
       const errorMessage =
@@ -367,51 +1685,80 @@ export class DocumentHandler {
   }
 
   /**
-   * Create a new folder in the docs directory
+   * Links from other documents and navigation.json entries that point at a
+   * document
+   * @private
    */
-  async createFolder(
-    folderPath: string,
-    createReadme = true
-  ): Promise<ToolResponse> {
-    try {
-      const validPath = await this.validatePath(folderPath);
+  private async findBreakingReferences(
+    isTarget: (filePath: string) => boolean
+  ): Promise<{
+    inboundLinks: Array<{ file: string; line: number; url: string }>;
+    navigationEntries: Array<{ title: string; path: string; trail: string[] }>;
+  }> {
+    const context = await createLinkContext(this.docsDir);
+    const inboundLinks: Array<{ file: string; line: number; url: string }> = [];
 
-      // Create the directory
-      await fs.mkdir(validPath, { recursive: true });
+    const files = await glob("**/*.md", { cwd: this.docsDir });
+    for (const file of files.sort()) {
+      const filePath = path.join(this.docsDir, file);
+      if (isTarget(filePath)) {
+        continue;
+      }
 
-      // Create a README.md file if requested
-      if (createReadme) {
-        const readmePath = path.join(validPath, "README.md");
-        const folderName = path.basename(validPath);
-        const content = `---
-title: ${folderName}
-description: Documentation for ${folderName}
-date: ${new Date().toISOString()}
-status: draft
----
+      const content = await fs.readFile(filePath, "utf-8");
+      for (const { link, resolvedPath } of resolveDocumentLinks(
+        context,
+        filePath,
+        content
+      )) {
+        if (isTarget(resolvedPath)) {
+          inboundLinks.push({ file, line: link.line, url: link.url });
+        }
+      }
+    }
 
-# ${folderName}
+    const navigation = await readNavigationFile(this.docsDir);
+    const navigationEntries = navigation
+      ? findNavigationEntries(navigation, (entryPath) =>
+          isTarget(path.join(this.docsDir, entryPath))
+        )
+      : [];
 
-This is the documentation for ${folderName}.
-`;
-        await fs.writeFile(readmePath, content, "utf-8");
-      }
+    return { inboundLinks, navigationEntries };
+  }
+
+  /**
+   * List documents in the trash, most recently deleted first
+   */
+  async listTrash(): Promise<ToolResponse> {
+    try {
+      const entries = await readTrash(this.docsDir);
 
       return {
         content: [
-          { type: "text", text: `Successfully created folder: ${folderPath}` },
+          {
+            type: "text",
+            text:
+              entries.length === 0
+                ? "The trash is empty"
+                : entries
+                    .map(
+                      (entry) =>
+                        `${entry.id} ${entry.originalPath}${
+                          entry.title ? ` (${entry.title})` : ""
+                        }, deleted ${entry.deletedAt}`
+                    )
+                    .join("\n"),
+          },
         ],
-        metadata: {
-          path: folderPath,
-          readme: createReadme ? path.join(folderPath, "README.md") : null,
-        },
+        metadata: { entries },
       };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          { type: "text", text: `Error creating folder: ${errorMessage}` },
+          { type: "text", text: `Error listing trash: ${errorMessage}` },
         ],
         isError: true,
       };
@@ -419,45 +1766,351 @@ This is the documentation for ${folderName}.
   }
 
   /**
-   * Move a document to a new location
+   * Restore a document or folder from the trash
+   * @param target Trash id, or the original path of the document or folder
+   * (the most recently deleted copy is restored)
+   * @param destinationPath Where to restore it, defaulting to its original path
+   * @param overwrite Replace an existing document at the destination
    */
-  async moveDocument(
-    sourcePath: string,
-    destinationPath: string,
-    updateReferences = true
+  @recorded("restore_document", (target: string) => target)
+  async restoreDocument(
+    target: string,
+    destinationPath?: string,
+    overwrite = false
   ): Promise<ToolResponse> {
     try {
-      const validSourcePath = await this.validatePath(sourcePath);
-      const validDestPath = await this.validatePath(destinationPath);
+      const entries = await readTrash(this.docsDir);
+      const entry =
+        entries.find((entry) => entry.id === target) ??
+        entries.find(
+          (entry) =>
+            path.normalize(entry.originalPath) === path.normalize(target)
+        );
+      if (!entry) {
+        throw new Error(`No document in the trash matches: ${target}`);
+      }
 
-      // Check if source exists
-      try {
-        await fs.access(validSourcePath);
-      } catch {
-        throw new Error(`Source file does not exist: ${sourcePath}`);
+      const restorePath = destinationPath ?? entry.originalPath;
+      const validPath = await this.validatePath(restorePath);
+      const exists = await fs
+        .access(validPath)
+        .then(() => true)
+        .catch(() => false);
+      if (exists && !overwrite) {
+        throw new Error(
+          `${restorePath} already exists; set overwrite or choose a destinationPath`
+        );
       }
 
-      // Create destination directory if it doesn't exist
-      const destDir = path.dirname(validDestPath);
-      await fs.mkdir(destDir, { recursive: true });
+      // Folders are restored file by file so every move is recorded
+      const trashPaths = getTrashPaths(entry);
+      const trashedPath = path.join(this.docsDir, trashPaths.file);
+      const moves: Array<[string, string]> = entry.isFolder
+        ? (
+            await glob("**/*", { cwd: trashedPath, nodir: true, dot: true })
+          ).map((file) => [
+            path.join(trashedPath, file),
+            path.join(validPath, file),
+          ])
+        : [[trashedPath, validPath]];
+      for (const [from, to] of moves) {
+        await this.makeDirectory(path.dirname(to));
+        await this.renameFile(from, to);
+      }
+      await this.removeFile(path.join(this.docsDir, trashPaths.entryFile));
+      await fs.rm(path.join(this.docsDir, trashPaths.folder), {
+        recursive: true,
+        force: true,
+      });
 
-      // Read the source file
-      const content = await fs.readFile(validSourcePath, "utf-8");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Restored ${entry.originalPath} to ${restorePath}`,
+          },
+        ],
+        metadata: { id: entry.id, path: restorePath },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error restoring document: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Permanently delete documents in the trash
+   * @param olderThanDays Only delete documents trashed more than this many
+   * days ago
+   */
+  async emptyTrash(olderThanDays?: number): Promise<ToolResponse> {
+    try {
+      const cutoff =
+        olderThanDays === undefined
+          ? null
+          : Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+      const removed = (await readTrash(this.docsDir)).filter(
+        (entry) => cutoff === null || Date.parse(entry.deletedAt) < cutoff
+      );
+
+      for (const entry of removed) {
+        await fs.rm(path.join(this.docsDir, getTrashPaths(entry).folder), {
+          recursive: true,
+          force: true,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Permanently deleted ${removed.length} documents from the trash`,
+          },
+        ],
+        metadata: { removed: removed.map((entry) => entry.originalPath) },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error emptying trash: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Create a new folder in the docs directory
+   */
+  @recorded("create_documentation_folder", (folderPath: string) => folderPath)
+  async createFolder(
+    folderPath: string,
+    createReadme = true
+  ): Promise<ToolResponse> {
+    try {
+      const validPath = await this.validatePath(folderPath);
+
+      // Create the directory
+      await this.makeDirectory(validPath);
+
+      // Create a README.md file if requested
+      if (createReadme) {
+        const readmePath = path.join(validPath, "README.md");
+        const folderName = path.basename(validPath);
+        const content = `---
+title: ${folderName}
+description: Documentation for ${folderName}
+date: ${new Date().toISOString()}
+status: draft
+---
+
+# ${folderName}
+
+This is the documentation for ${folderName}.
+`;
+        await this.writeFile(readmePath, content);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully created folder: ${folderPath}`,
+          },
+        ],
+        metadata: {
+          path: folderPath,
+          readme: createReadme ? path.join(folderPath, "README.md") : null,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error creating folder: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Move a document to a new location. Relative links in the document are
+   * rewritten so they keep working from the new folder.
+   * @param updateReferences Rewrite links to the document from other
+   * documents, resolving each relative to the file that contains it
+   * @param moveAssets Also move local non-markdown files that only this
+   * document references, keeping their position relative to the document
+   * @param dryRun Return a diff of each document that would change without
+   * moving anything
+   */
+  @recorded(
+    "move_document",
+    (sourcePath: string, destinationPath: string) =>
+      `${sourcePath} -> ${destinationPath}`
+  )
+  async moveDocument(
+    sourcePath: string,
+    destinationPath: string,
+    updateReferences = true,
+    moveAssets = false,
+    expectedHash?: string,
+    dryRun = false
+  ): Promise<ToolResponse> {
+    try {
+      const validSourcePath = await this.validatePath(sourcePath);
+      const validDestPath = await this.validatePath(destinationPath);
+
+      // Check if source exists
+      try {
+        await fs.access(validSourcePath);
+      } catch {
+        throw new Error(`Source file does not exist: ${sourcePath}`);
+      }
+      await this.checkExpectedHash(validSourcePath, sourcePath, expectedHash);
+
+      // Read the source file
+      const content = await fs.readFile(validSourcePath, "utf-8");
+
+      // Plan asset moves before anything is written
+      const assetMoves = new Map<string, string>();
+      if (moveAssets) {
+        for (const asset of await this.findPrivateAssets(
+          validSourcePath,
+          content
+        )) {
+          const newAssetPath = await this.validatePath(
+            path.resolve(
+              path.dirname(validDestPath),
+              path.relative(path.dirname(validSourcePath), asset)
+            )
+          );
+          if (newAssetPath === asset) {
+            continue;
+          }
+          const exists = await fs.access(newAssetPath).then(
+            () => true,
+            () => false
+          );
+          if (exists) {
+            throw new Error(
+              `Asset destination already exists: ${path.relative(
+                this.docsDir,
+                newAssetPath
+              )}`
+            );
+          }
+          assetMoves.set(asset, newAssetPath);
+        }
+      }
+
+      const mapPath = (target: string) =>
+        target === validSourcePath ? validDestPath : assetMoves.get(target);
+
+      // Plan every link change before anything is written
+      const updates = updateReferences
+        ? await this.planReferenceUpdates(mapPath)
+        : new Map<string, string>();
+      const updatedContent =
+        updates.get(validSourcePath) ??
+        rewriteLinks(
+          content,
+          this.docsDir,
+          validSourcePath,
+          validDestPath,
+          mapPath
+        );
+      updates.delete(validSourcePath);
+
+      const movedAssets = [...assetMoves].map(([from, to]) => ({
+        from: path.relative(this.docsDir, from),
+        to: path.relative(this.docsDir, to),
+      }));
+      const updatedFiles = [...updates.keys()].map((filePath) =>
+        path.relative(this.docsDir, filePath)
+      );
+
+      if (dryRun) {
+        const diffs =
+          (updatedContent !== content
+            ? formatDiff(
+                createUnifiedDiff(
+                  content,
+                  updatedContent,
+                  sourcePath,
+                  destinationPath
+                )
+              )
+            : "") + (await this.formatPlannedChanges(updates));
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Would move document from ${sourcePath} to ${destinationPath}` +
+                (updatedFiles.length > 0
+                  ? ` and update references in ${updatedFiles.length} documents`
+                  : "") +
+                (movedAssets.length > 0
+                  ? `\nWould move ${movedAssets.length} assets:\n` +
+                    movedAssets
+                      .map((asset) => `- ${asset.from} -> ${asset.to}`)
+                      .join("\n")
+                  : "") +
+                (diffs ? `\n\n${diffs}` : ""),
+            },
+          ],
+          metadata: {
+            sourcePath,
+            destinationPath,
+            dryRun,
+            updatedFiles,
+            movedAssets,
+          },
+        };
+      }
+
+      // Create destination directory if it doesn't exist
+      const destDir = path.dirname(validDestPath);
+      await this.makeDirectory(destDir);
 
       // Write to destination
-      await fs.writeFile(validDestPath, content, "utf-8");
+      await this.writeFile(validDestPath, updatedContent);
 
       // Delete the source file
-      await fs.unlink(validSourcePath);
+      await this.removeFile(validSourcePath);
 
-      // Update references if requested
-      let referencesUpdated = 0;
-      if (updateReferences) {
-        referencesUpdated = await this.updateReferences(
-          sourcePath,
-          destinationPath
-        );
+      // Move the assets
+      for (const [from, to] of assetMoves) {
+        await this.makeDirectory(path.dirname(to));
+        await this.renameFile(from, to);
+      }
+
+      // Update references in other documents
+      for (const [filePath, fileContent] of updates) {
+        await this.writeFile(filePath, fileContent);
       }
+      const referencesUpdated = updates.size;
+
+      await this.recordRedirects([
+        {
+          from: path.relative(this.docsDir, validSourcePath),
+          to: path.relative(this.docsDir, validDestPath),
+        },
+        ...movedAssets,
+      ]);
 
       return {
         content: [
@@ -467,6 +2120,12 @@ This is the documentation for ${folderName}.
               `Successfully moved document from ${sourcePath} to ${destinationPath}` +
               (referencesUpdated > 0
                 ? `. Updated ${referencesUpdated} references.`
+                : "") +
+              (movedAssets.length > 0
+                ? `\nMoved ${movedAssets.length} assets:\n` +
+                  movedAssets
+                    .map((asset) => `- ${asset.from} -> ${asset.to}`)
+                    .join("\n")
                 : ""),
           },
         ],
@@ -474,6 +2133,8 @@ This is the documentation for ${folderName}.
           sourcePath,
           destinationPath,
           referencesUpdated,
+          updatedFiles,
+          movedAssets,
         },
       };
     } catch (error) {
@@ -489,108 +2150,1874 @@ This is the documentation for ${folderName}.
   }
 
   /**
-   * Rename a document
+   * Copy a document, e.g. to start a new guide from an existing one
+   * @param options.title New title for the copy's frontmatter and first heading
+   * @param options.resetFields Frontmatter fields to reset in the copy: date
+   * becomes today, status becomes draft and other fields are removed
+   * @param options.overwrite Replace an existing document at the destination
    */
-  async renameDocument(
-    docPath: string,
-    newName: string,
-    updateReferences = true
+  @recorded(
+    "copy_document",
+    (sourcePath: string, destinationPath: string) =>
+      `${sourcePath} -> ${destinationPath}`
+  )
+  async copyDocument(
+    sourcePath: string,
+    destinationPath: string,
+    options: {
+      title?: string;
+      resetFields?: string[];
+      overwrite?: boolean;
+    } = {}
   ): Promise<ToolResponse> {
-    try {
-      const validPath = await this.validatePath(docPath);
-
-      // Get directory and extension
-      const dir = path.dirname(validPath);
-      const ext = path.extname(validPath);
+    const {
+      title,
+      resetFields = ["date", "status", "order"],
+      overwrite = false,
+    } = options;
 
-      // Create new path
-      const newPath = path.join(dir, newName + ext);
-      const validNewPath = await this.validatePath(newPath);
+    try {
+      const validSourcePath = await this.validatePath(sourcePath);
+      const validDestPath = await this.validatePath(destinationPath);
+      if (validSourcePath === validDestPath) {
+        throw new Error("Source and destination are the same file");
+      }
 
-      // Check if source exists
+      let content: string;
       try {
-        await fs.access(validPath);
+        content = await fs.readFile(validSourcePath, "utf-8");
       } catch {
-        throw new Error(`Source file does not exist: ${docPath}`);
+        throw new Error(`Source file does not exist: ${sourcePath}`);
       }
 
-      // Check if destination already exists
-      try {
-        await fs.access(validNewPath);
-        throw new Error(`Destination file already exists: ${newPath}`);
-      } catch (error) {
-        // If error is "file doesn't exist", that's good
+      const exists = await fs.access(validDestPath).then(
+        () => true,
+        () => false
+      );
+      if (exists && !overwrite) {
+        throw new Error(
+          `Destination file already exists: ${destinationPath}; set overwrite to replace it`
+        );
+      }
+
+      // Links to the source itself point at the copy
+      let updatedContent = rewriteLinks(
+        content,
+        this.docsDir,
+        validSourcePath,
+        validDestPath,
+        (target) => (target === validSourcePath ? validDestPath : undefined)
+      );
+
+      const parsed = parseFrontmatter(content);
+      const previousTitle = parsed.frontmatter.title;
+      const resetApplied: string[] = [];
+      // Frontmatter that cannot be parsed is copied as it is
+      if (parsed.errors.length === 0) {
+        updatedContent = updateFrontmatter(updatedContent, (frontmatter) => {
+          if (title && frontmatter.title !== undefined) {
+            frontmatter.title = title;
+          }
+          for (const field of resetFields) {
+            if (frontmatter[field] === undefined) {
+              continue;
+            }
+            if (field === "date") {
+              frontmatter.date = new Date().toISOString().split("T")[0];
+            } else if (field === "status") {
+              frontmatter.status = "draft";
+            } else {
+              delete frontmatter[field];
+            }
+            resetApplied.push(field);
+          }
+        });
+      }
+
+      // Retitle the first heading when it is the document's title
+      if (title) {
+        const heading = parseMarkdown(updatedContent).headings.find(
+          (heading) => heading.level === 1
+        );
+        const lines = updatedContent.split("\n");
         if (
-          !(
-            error instanceof Error &&
-            error.message.includes("Destination file already exists")
-          )
+          heading &&
+          /^\s{0,3}#\s/.test(lines[heading.line - 1]) &&
+          (previousTitle === undefined || heading.text === previousTitle)
         ) {
-          // Continue with rename
+          lines[heading.line - 1] = lines[heading.line - 1].replace(
+            /^(\s{0,3}#\s+).*?(\r?)$/,
+            (_match, prefix: string, cr: string) => prefix + title + cr
+          );
+          updatedContent = lines.join("\n");
+        }
+      }
+
+      await this.makeDirectory(path.dirname(validDestPath));
+      await this.writeFile(validDestPath, updatedContent);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Successfully copied ${sourcePath} to ${destinationPath}` +
+              (resetApplied.length > 0
+                ? `. Reset ${resetApplied.join(", ")}.`
+                : ""),
+          },
+        ],
+        metadata: {
+          sourcePath,
+          destinationPath,
+          title,
+          resetFields: resetApplied,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error copying document: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Move a folder and everything in it. Links in the moved documents and
+   * links elsewhere that point into the folder are rewritten in one pass,
+   * and navigation.json entries follow the folder.
+   */
+  @recorded(
+    "move_folder",
+    (sourcePath: string, destinationPath: string) =>
+      `${sourcePath} -> ${destinationPath}`
+  )
+  async moveFolder(
+    sourcePath: string,
+    destinationPath: string,
+    updateReferences = true
+  ): Promise<ToolResponse> {
+    try {
+      const validSourcePath = await this.validateFolderPath(sourcePath);
+      const validDestPath = await this.validatePath(destinationPath);
+      if (
+        validDestPath === validSourcePath ||
+        validDestPath.startsWith(validSourcePath + path.sep)
+      ) {
+        throw new Error("Cannot move a folder into itself");
+      }
+      const exists = await fs.access(validDestPath).then(
+        () => true,
+        () => false
+      );
+      if (exists) {
+        throw new Error(`Destination already exists: ${destinationPath}`);
+      }
+
+      const mapPath = (filePath: string) =>
+        filePath === validSourcePath ||
+        filePath.startsWith(validSourcePath + path.sep)
+          ? validDestPath + filePath.slice(validSourcePath.length)
+          : undefined;
+
+      const files = (
+        await glob("**/*", { cwd: validSourcePath, nodir: true, dot: true })
+      ).sort();
+      const updates = await this.planReferenceUpdates(mapPath);
+      if (!updateReferences) {
+        // Other documents keep their links, but links in the moved
+        // documents still follow them, as moveDocument does
+        for (const filePath of updates.keys()) {
+          if (mapPath(filePath) === undefined) {
+            updates.delete(filePath);
+          }
+        }
+      }
+
+      // Move every file, writing documents whose links changed
+      const movedFiles: Array<{ from: string; to: string }> = [];
+      for (const file of files) {
+        const from = path.join(validSourcePath, file);
+        const to = mapPath(from)!;
+        await this.makeDirectory(path.dirname(to));
+
+        const updated = updates.get(from);
+        if (updated !== undefined) {
+          await this.writeFile(to, updated);
+          await this.removeFile(from);
         } else {
-          throw error;
+          await this.renameFile(from, to);
+        }
+        movedFiles.push({
+          from: path.relative(this.docsDir, from),
+          to: path.relative(this.docsDir, to),
+        });
+      }
+      await this.removeEmptyFolder(validSourcePath);
+
+      // Then the documents outside the folder that link into it
+      const updatedFiles: string[] = [];
+      for (const [filePath, content] of updates) {
+        if (mapPath(filePath) === undefined) {
+          await this.writeFile(filePath, content);
+          updatedFiles.push(path.relative(this.docsDir, filePath));
         }
       }
 
-      // Read the source file
-      const content = await fs.readFile(validPath, "utf-8");
+      const navigationEntriesUpdated = updateReferences
+        ? await this.updateNavigationFile(mapPath)
+        : 0;
+      await this.recordRedirects(movedFiles);
+
+      const rewritten = movedFiles.filter(({ from }) =>
+        updates.has(path.join(this.docsDir, from))
+      ).length;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Successfully moved folder ${sourcePath} to ${destinationPath}\n` +
+              `Moved ${movedFiles.length} files (links rewritten in ${rewritten}), ` +
+              `updated links in ${updatedFiles.length} other documents` +
+              (navigationEntriesUpdated > 0
+                ? ` and ${navigationEntriesUpdated} ${NAVIGATION_FILE} entries`
+                : "") +
+              (updatedFiles.length > 0
+                ? `\n\nUpdated:\n${updatedFiles
+                    .map((file) => `- ${file}`)
+                    .join("\n")}`
+                : ""),
+          },
+        ],
+        metadata: {
+          sourcePath,
+          destinationPath,
+          movedFiles,
+          updatedFiles,
+          navigationEntriesUpdated,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error moving folder: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Rename a folder in place, updating references like moveFolder
+   */
+  @recorded(
+    "rename_folder",
+    (folderPath: string, newName: string) => `${folderPath} -> ${newName}`
+  )
+  async renameFolder(
+    folderPath: string,
+    newName: string,
+    updateReferences = true
+  ): Promise<ToolResponse> {
+    if (/[\\/]/.test(newName)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error renaming folder: New name must not contain a path: ${newName}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return this.moveFolder(
+      folderPath,
+      path.join(path.dirname(folderPath), newName),
+      updateReferences
+    );
+  }
+
+  /**
+   * Delete a folder and everything in it. The folder is moved to the trash
+   * unless permanent is set, and the response warns about links and
+   * navigation entries that will break.
+   */
+  @recorded("delete_folder", (folderPath: string) => folderPath)
+  async deleteFolder(
+    folderPath: string,
+    permanent = false
+  ): Promise<ToolResponse> {
+    try {
+      const validPath = await this.validateFolderPath(folderPath);
+      const isInside = (filePath: string) =>
+        filePath === validPath || filePath.startsWith(validPath + path.sep);
+      const { inboundLinks, navigationEntries } =
+        await this.findBreakingReferences(isInside);
+
+      const files = (
+        await glob("**/*", { cwd: validPath, nodir: true, dot: true })
+      ).sort();
+
+      let trashId: string | undefined;
+      if (permanent) {
+        for (const file of files) {
+          await this.removeFile(path.join(validPath, file));
+        }
+      } else {
+        const entry: TrashEntry = {
+          id: createTrashId(),
+          originalPath: path.relative(this.docsDir, validPath),
+          deletedAt: new Date().toISOString(),
+          isFolder: true,
+        };
+        const trashPaths = getTrashPaths(entry);
+
+        await this.makeDirectory(path.join(this.docsDir, trashPaths.folder));
+        await this.writeFile(
+          path.join(this.docsDir, trashPaths.entryFile),
+          JSON.stringify(entry, null, 2)
+        );
+        for (const file of files) {
+          const to = path.join(this.docsDir, trashPaths.file, file);
+          await this.makeDirectory(path.dirname(to));
+          await this.renameFile(path.join(validPath, file), to);
+        }
+        trashId = entry.id;
+      }
+      await this.removeEmptyFolder(validPath);
+
+      let text = permanent
+        ? `Successfully deleted folder ${folderPath} (${files.length} files)`
+        : `Moved folder ${folderPath} (${files.length} files) to the trash (id ${trashId}); use restore_document to bring it back`;
+      if (inboundLinks.length > 0) {
+        text +=
+          `\n\nWarning: ${inboundLinks.length} links into this folder will break:\n` +
+          inboundLinks
+            .map((link) => `- ${link.file}:${link.line} ${link.url}`)
+            .join("\n");
+      }
+      if (navigationEntries.length > 0) {
+        text +=
+          `\n\nWarning: ${NAVIGATION_FILE} still lists documents in this folder:\n` +
+          navigationEntries
+            .map((entry) => `- ${[...entry.trail, entry.title].join(" > ")}`)
+            .join("\n");
+      }
+
+      return {
+        content: [{ type: "text", text }],
+        metadata: {
+          path: folderPath,
+          trashId,
+          deletedFiles: files.map((file) =>
+            path.relative(this.docsDir, path.join(validPath, file))
+          ),
+          inboundLinks,
+          navigationEntries,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error deleting folder: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Validate a path that must be an existing folder other than the docs root
+   * @private
+   */
+  private async validateFolderPath(folderPath: string): Promise<string> {
+    const validPath = await this.validatePath(folderPath);
+    if (validPath === path.normalize(this.docsDir)) {
+      throw new Error("Cannot change the docs root folder itself");
+    }
+
+    const stats = await fs.stat(validPath).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Folder does not exist: ${folderPath}`);
+    }
+    return validPath;
+  }
+
+  /**
+   * Remove a folder once no files are left in it
+   * @private
+   */
+  private async removeEmptyFolder(dirPath: string): Promise<void> {
+    const remaining = await glob("**/*", {
+      cwd: dirPath,
+      nodir: true,
+      dot: true,
+    });
+    if (remaining.length === 0) {
+      await fs.rm(dirPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Work out how documents change when files move: moved documents get
+   * their relative links rewritten for their new folder, and links anywhere
+   * that point at a moved file or folder follow it. Nothing is written.
+   * @param mapPath Returns the new absolute path of a moved file or folder,
+   * or undefined if it does not move
+   * @param titles New frontmatter titles of retitled documents, by current
+   * absolute path, so wiki-links by title follow them
+   * @returns New content of each changed document, by its current absolute
+   * path
+   * @private
+   */
+  private async planReferenceUpdates(
+    mapPath: (filePath: string) => string | undefined,
+    titles = new Map<string, string>()
+  ): Promise<Map<string, string>> {
+    const context = await createLinkContext(this.docsDir);
+    const movedContext: LinkContext = {
+      ...context,
+      pages: context.pages.map((page) => ({
+        path: mapPath(page.path) ?? page.path,
+        title: titles.get(page.path) ?? page.title,
+      })),
+      anchors: new Map(),
+    };
+
+    const updates = new Map<string, string>();
+    const files = await glob("**/*.md", { cwd: this.docsDir });
+    for (const file of files.sort()) {
+      const filePath = path.join(this.docsDir, file);
+      const newFilePath = mapPath(filePath) ?? filePath;
+      const content = await fs.readFile(filePath, "utf-8");
+
+      // Wiki-links resolve by name, so only change the ones that would
+      // resolve to a different file after the move
+      const replacements: Array<{ start: number; end: number; text: string }> =
+        [];
+      for (const link of parseMarkdown(content).links) {
+        const { page } = splitWikiTarget(link.url);
+        const target =
+          link.kind === "wiki" && page
+            ? resolveWikiTarget(context, filePath, page)
+            : null;
+        if (!target) {
+          continue;
+        }
+
+        const newTarget = mapPath(target) ?? target;
+        if (resolveWikiTarget(movedContext, newFilePath, page) !== newTarget) {
+          const pageStart = link.urlStart! + link.url.indexOf(page);
+          replacements.push({
+            start: pageStart,
+            end: pageStart + page.length,
+            text: getWikiPageName(movedContext, newFilePath, newTarget),
+          });
+        }
+      }
+
+      const updatedContent = rewriteLinks(
+        replaceRanges(content, replacements),
+        this.docsDir,
+        filePath,
+        newFilePath,
+        mapPath
+      );
+      if (updatedContent !== content) {
+        updates.set(filePath, updatedContent);
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Point navigation.json entries at moved files and folders
+   * @returns How many entries changed
+   * @private
+   */
+  private async updateNavigationFile(
+    mapPath: (filePath: string) => string | undefined
+  ): Promise<number> {
+    const navigation = await readNavigationFile(this.docsDir);
+    if (!navigation) {
+      return 0;
+    }
+
+    const { navigation: updated, changed } = updateNavigationPaths(
+      navigation,
+      (entryPath) => {
+        const newPath = mapPath(path.join(this.docsDir, entryPath));
+        return newPath && path.relative(this.docsDir, newPath);
+      }
+    );
+    if (changed > 0) {
+      await this.writeFile(
+        path.join(this.docsDir, NAVIGATION_FILE),
+        JSON.stringify(updated, null, 2)
+      );
+    }
+    return changed;
+  }
+
+  /**
+   * Add moved files to redirects.json so their old URLs keep working
+   * @param moves Paths relative to the docs root
+   * @private
+   */
+  private async recordRedirects(
+    moves: Array<{ from: string; to: string }>
+  ): Promise<void> {
+    if (moves.length === 0) {
+      return;
+    }
+    const redirects = addRedirects(await readRedirects(this.docsDir), moves);
+    await this.writeFile(
+      path.join(this.docsDir, REDIRECTS_FILE),
+      JSON.stringify(redirects, null, 2)
+    );
+  }
+
+  /**
+   * Diff of each planned document change, for dry runs
+   * @private
+   */
+  private async formatPlannedChanges(
+    updates: Map<string, string>
+  ): Promise<string> {
+    let diffs = "";
+    for (const [filePath, updatedContent] of updates) {
+      diffs += formatDiff(
+        createUnifiedDiff(
+          await fs.readFile(filePath, "utf-8"),
+          updatedContent,
+          path.relative(this.docsDir, filePath)
+        )
+      );
+    }
+    return diffs;
+  }
+
+  /**
+   * Rename a document
+   * @param updateReferences Rewrite links to the document from other
+   * documents, including wiki-links that use its title
+   * @param dryRun Return a diff of each document that would change without
+   * renaming anything
+   */
+  @recorded(
+    "rename_document",
+    (docPath: string, newName: string) => `${docPath} -> ${newName}`
+  )
+  async renameDocument(
+    docPath: string,
+    newName: string,
+    updateReferences = true,
+    expectedHash?: string,
+    dryRun = false
+  ): Promise<ToolResponse> {
+    try {
+      const validPath = await this.validatePath(docPath);
+
+      // Get directory and extension
+      const dir = path.dirname(validPath);
+      const ext = path.extname(validPath);
+
+      // Create new path
+      const newPath = path.join(dir, newName + ext);
+      const validNewPath = await this.validatePath(newPath);
+
+      // Check if source exists
+      try {
+        await fs.access(validPath);
+      } catch {
+        throw new Error(`Source file does not exist: ${docPath}`);
+      }
+      await this.checkExpectedHash(validPath, docPath, expectedHash);
+
+      // Check if destination already exists
+      try {
+        await fs.access(validNewPath);
+        throw new Error(`Destination file already exists: ${newPath}`);
+      } catch (error) {
+        // If error is "file doesn't exist", that's good
+        if (
+          !(
+            error instanceof Error &&
+            error.message.includes("Destination file already exists")
+          )
+        ) {
+          // Continue with rename
+        } else {
+          throw error;
+        }
+      }
+
+      // Read the source file
+      const content = await fs.readFile(validPath, "utf-8");
+
+      // Plan every link change before anything is written. The title
+      // changes too, so wiki-links by title need to follow it.
+      const titles = new Map<string, string>();
+      if (parseFrontmatter(content).frontmatter.title) {
+        titles.set(validPath, newName);
+      }
+      const updates = updateReferences
+        ? await this.planReferenceUpdates(
+            (target) => (target === validPath ? validNewPath : undefined),
+            titles
+          )
+        : new Map<string, string>();
+
+      // Update title in frontmatter if it exists; frontmatter that
+      // cannot be parsed is left alone
+      const movedContent = updates.get(validPath) ?? content;
+      const updatedContent =
+        parseFrontmatter(movedContent).errors.length > 0
+          ? movedContent
+          : updateFrontmatter(movedContent, (frontmatter) => {
+              if (frontmatter.title) {
+                frontmatter.title = newName;
+              }
+            });
+      updates.delete(validPath);
+
+      const newRelativePath = path.relative(this.docsDir, validNewPath);
+      const updatedFiles = [...updates.keys()].map((filePath) =>
+        path.relative(this.docsDir, filePath)
+      );
+
+      if (dryRun) {
+        const diffs =
+          formatDiff(
+            createUnifiedDiff(
+              content,
+              updatedContent,
+              path.relative(this.docsDir, validPath),
+              newRelativePath
+            )
+          ) + (await this.formatPlannedChanges(updates));
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Would rename document from ${docPath} to ${newName}${ext}` +
+                (updatedFiles.length > 0
+                  ? ` and update references in ${updatedFiles.length} documents`
+                  : "") +
+                `\n\n${diffs}`,
+            },
+          ],
+          metadata: {
+            originalPath: docPath,
+            newPath: newRelativePath,
+            dryRun,
+            updatedFiles,
+          },
+        };
+      }
+
+      // Write to new path
+      await this.writeFile(validNewPath, updatedContent);
+
+      // Delete the source file
+      await this.removeFile(validPath);
+
+      // Update references in other documents
+      for (const [filePath, fileContent] of updates) {
+        await this.writeFile(filePath, fileContent);
+      }
+      const referencesUpdated = updates.size;
+
+      await this.recordRedirects([
+        {
+          from: path.relative(this.docsDir, validPath),
+          to: newRelativePath,
+        },
+      ]);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Successfully renamed document from ${docPath} to ${newName}${ext}` +
+              (referencesUpdated > 0
+                ? `. Updated ${referencesUpdated} references.`
+                : ""),
+          },
+        ],
+        metadata: {
+          originalPath: docPath,
+          newPath: newRelativePath,
+          referencesUpdated,
+          updatedFiles,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error renaming document: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Export the redirects recorded in redirects.json for a hosting platform
+   * or site generator
+   * @param baseUrl Path the docs are published under
+   * @param outputPath Also write the result to this file
+   */
+  @recorded(
+    "export_redirects",
+    (format: RedirectFormat, _baseUrl: string, outputPath?: string) =>
+      `${format}${outputPath ? ` to ${outputPath}` : ""}`
+  )
+  async exportRedirects(
+    format: RedirectFormat,
+    baseUrl = "/",
+    outputPath?: string
+  ): Promise<ToolResponse> {
+    try {
+      const redirects = await readRedirects(this.docsDir);
+      const count = Object.keys(redirects).length;
+      const exported = formatRedirects(redirects, format, baseUrl);
+
+      if (outputPath) {
+        const validOutputPath = await this.validatePath(outputPath);
+        await this.makeDirectory(path.dirname(validOutputPath));
+        await this.writeFile(validOutputPath, exported);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `${count} redirects in ${format} format` +
+              (outputPath ? `, written to ${outputPath}` : "") +
+              `\n\n${formatCodeBlock(exported.replace(/\n$/, ""))}`,
+          },
+        ],
+        metadata: { format, baseUrl, outputPath, count, redirects },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error exporting redirects: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Update navigation order for a document
+   */
+  @recorded(
+    "update_documentation_navigation_order",
+    (docPath: string) => docPath
+  )
+  async updateNavigationOrder(
+    docPath: string,
+    order: number
+  ): Promise<ToolResponse> {
+    try {
+      const validPath = await this.validatePath(docPath);
+
+      // Check if file exists
+      try {
+        await fs.access(validPath);
+      } catch {
+        throw new Error(`File does not exist: ${docPath}`);
+      }
+
+      // Read the file
+      const content = await fs.readFile(validPath, "utf-8");
+
+      // Update order in frontmatter
+      const updatedContent = updateFrontmatter(content, (frontmatter) => {
+        frontmatter.order = order;
+      });
+
+      // Write updated content
+      await this.writeFile(validPath, updatedContent);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully updated navigation order for ${docPath} to ${order}`,
+          },
+        ],
+        metadata: {
+          path: docPath,
+          order,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error updating navigation order: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Update frontmatter fields in every document matching a path or glob
+   */
+  @recorded("update_frontmatter", (target: string) => target)
+  async updateDocumentFrontmatter(
+    target: string,
+    operations: FrontmatterOperation[],
+    dryRun = false
+  ): Promise<ToolResponse> {
+    try {
+      const files = await this.resolveDocumentPaths(target);
+      if (files.length === 0) {
+        throw new Error(`No documents match: ${target}`);
+      }
+
+      const results: Array<{
+        path: string;
+        changed: boolean;
+        error?: string;
+      }> = [];
+      let diffs = "";
+
+      for (const file of files) {
+        const filePath = path.join(this.docsDir, file);
+        const content = await fs.readFile(filePath, "utf-8");
+
+        try {
+          const updatedContent = updateFrontmatter(content, (frontmatter) =>
+            applyFrontmatterOperations(frontmatter, operations)
+          );
+          const changed = updatedContent !== content;
+
+          if (changed) {
+            diffs += formatDiff(
+              createUnifiedDiff(content, updatedContent, file)
+            );
+            if (!dryRun) {
+              await this.writeFile(filePath, updatedContent);
+            }
+          }
+
+          results.push({ path: file, changed });
+        } catch (error) {
+          results.push({
+            path: file,
+            changed: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const changedCount = results.filter((result) => result.changed).length;
+      const failed = results.filter((result) => result.error);
+      let text = `${
+        dryRun ? "Would update" : "Updated"
+      } frontmatter in ${changedCount} of ${files.length} documents`;
+      if (failed.length > 0) {
+        text +=
+          `\nFailed to update ${failed.length} documents:\n` +
+          failed
+            .map((result) => `- ${result.path}: ${result.error}`)
+            .join("\n");
+      }
+
+      return {
+        content: [{ type: "text", text: diffs ? `${text}\n\n${diffs}` : text }],
+        metadata: {
+          target,
+          dryRun,
+          changedCount,
+          files: results,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error updating frontmatter: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Migrate frontmatter conventions across documents with declarative rules
+   */
+  @recorded(
+    "migrate_frontmatter",
+    (_rules: FrontmatterMigrationRule[], target: string = "**/*.md") => target
+  )
+  async migrateFrontmatter(
+    rules: FrontmatterMigrationRule[],
+    target = "**/*.md",
+    dryRun = false
+  ): Promise<ToolResponse> {
+    try {
+      const files = await this.resolveDocumentPaths(target);
+      const ruleResults = rules.map((rule) => ({ rule, filesTouched: 0 }));
+      const changedFiles: string[] = [];
+      const failedFiles: Array<{ path: string; error: string }> = [];
+      let diffs = "";
+
+      for (const file of files) {
+        const filePath = path.join(this.docsDir, file);
+        const content = await fs.readFile(filePath, "utf-8");
+
+        try {
+          const touched = new Set<number>();
+          const updatedContent = updateFrontmatter(content, (frontmatter) => {
+            rules.forEach((rule, index) => {
+              if (rule.glob && !minimatch(file, rule.glob)) return;
+              if (applyMigrationRule(frontmatter, rule)) {
+                touched.add(index);
+              }
+            });
+          });
+
+          if (updatedContent !== content) {
+            touched.forEach((index) => ruleResults[index].filesTouched++);
+            changedFiles.push(file);
+            diffs += formatDiff(
+              createUnifiedDiff(content, updatedContent, file)
+            );
+            if (!dryRun) {
+              await this.writeFile(filePath, updatedContent);
+            }
+          }
+        } catch (error) {
+          failedFiles.push({
+            path: file,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      let text = `${dryRun ? "Would migrate" : "Migrated"} frontmatter in ${
+        changedFiles.length
+      } of ${files.length} documents\n`;
+      text += ruleResults
+        .map(
+          (result, index) =>
+            `${index + 1}. ${describeMigrationRule(result.rule)}: ${
+              result.filesTouched
+            } files`
+        )
+        .join("\n");
+      if (failedFiles.length > 0) {
+        text +=
+          `\nFailed to migrate ${failedFiles.length} documents:\n` +
+          failedFiles.map((file) => `- ${file.path}: ${file.error}`).join("\n");
+      }
+
+      return {
+        content: [{ type: "text", text: diffs ? `${text}\n\n${diffs}` : text }],
+        metadata: {
+          target,
+          dryRun,
+          filesChecked: files.length,
+          changedFiles,
+          failedFiles,
+          rules: ruleResults,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error migrating frontmatter: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Create a new navigation section
+   */
+  @recorded(
+    "create_documentation_section",
+    (_title: string, sectionPath: string) => sectionPath
+  )
+  async createSection(
+    title: string,
+    sectionPath: string,
+    order?: number
+  ): Promise<ToolResponse> {
+    try {
+      // Create the directory for the section
+      const validPath = await this.validatePath(sectionPath);
+      await this.makeDirectory(validPath);
+
+      // Create an index.md file for the section
+      const indexPath = path.join(validPath, "index.md");
+      const validIndexPath = await this.validatePath(indexPath);
+
+      // Create content with frontmatter
+      let content = "---\n";
+      content += `title: ${title}\n`;
+      content += `description: ${title} section\n`;
+      content += `date: ${new Date().toISOString()}\n`;
+      content += `status: published\n`;
+      if (order !== undefined) {
+        content += `order: ${order}\n`;
+      }
+      content += "---\n\n";
+      content += `# ${title}\n\n`;
+      content += `Welcome to the ${title} section.\n`;
+
+      // Write the index file
+      await this.writeFile(validIndexPath, content);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully created section: ${title} at ${sectionPath}`,
+          },
+        ],
+        metadata: {
+          title,
+          path: sectionPath,
+          indexPath: path.join(sectionPath, "index.md"),
+          order,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error creating section: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Apply a list of operations in order as one unit. Every operation is
+   * checked before anything is written, and if any of them fails the files
+   * they touched are restored.
+   * @param operations Operations to apply, each naming the tool it runs
+   */
+  @serialized
+  async batchOperations(operations: BatchOperation[]): Promise<ToolResponse> {
+    const results: Array<{
+      index: number;
+      tool: string;
+      status: "applied" | "failed" | "rolled_back" | "skipped";
+      message?: string;
+    }> = operations.map((operation, index) => ({
+      index,
+      tool: operation.tool,
+      status: "skipped",
+    }));
+
+    try {
+      if (operations.length === 0) {
+        throw new Error("No operations given");
+      }
+      if (this.recording.getStore()) {
+        throw new Error("Another change is already in progress");
+      }
+
+      // Check every path before touching anything
+      const invalid: string[] = [];
+      for (const [index, operation] of operations.entries()) {
+        try {
+          await this.validateBatchOperation(operation);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          results[index].status = "failed";
+          results[index].message = message;
+          invalid.push(`${index + 1}. ${operation.tool}: ${message}`);
+        }
+      }
+      if (invalid.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error running batch: no operations were applied because some are invalid:\n${invalid.join(
+                "\n"
+              )}`,
+            },
+          ],
+          metadata: { applied: false, results },
+          isError: true,
+        };
+      }
+
+      const recording: ChangeRecording = {
+        originals: new Map(),
+        createdDirectories: [],
+      };
+
+      const failed = await this.recording.run(recording, async () => {
+        for (const [index, operation] of operations.entries()) {
+          let response: ToolResponse;
+          try {
+            response = await this.runBatchOperation(operation);
+          } catch (error) {
+            response = {
+              content: [
+                {
+                  type: "text",
+                  text: error instanceof Error ? error.message : String(error),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          results[index].message = response.content[0]?.text;
+          if (response.isError) {
+            results[index].status = "failed";
+            return index;
+          }
+          results[index].status = "applied";
+        }
+        return null;
+      });
+
+      if (failed !== null) {
+        await this.restoreRecording(recording);
+        for (const result of results.slice(0, failed)) {
+          result.status = "rolled_back";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Error running batch: operation ${failed + 1} (${
+                  operations[failed].tool
+                }) failed, so all changes were rolled back\n\n` +
+                results
+                  .map(
+                    (result) =>
+                      `${result.index + 1}. ${result.tool}: ${result.status}`
+                  )
+                  .join("\n") +
+                `\n\n${results[failed].message}`,
+            },
+          ],
+          metadata: { applied: false, failedOperation: failed, results },
+          isError: true,
+        };
+      }
+
+      await this.journalRecording(
+        "batch_operations",
+        `${operations.length} operations`,
+        recording
+      );
+
+      const changedFiles = [...recording.originals.keys()]
+        .map((filePath) => path.relative(this.docsDir, filePath))
+        .sort();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Applied ${operations.length} operations, changing ${changedFiles.length} files\n\n` +
+              results
+                .map(
+                  (result) =>
+                    `${result.index + 1}. ${result.tool}: ${result.message}`
+                )
+                .join("\n"),
+          },
+        ],
+        metadata: { applied: true, changedFiles, results },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error running batch: ${errorMessage}` },
+        ],
+        metadata: { applied: false, results },
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Check the paths an operation will touch without running it
+   * @private
+   */
+  private async validateBatchOperation(
+    operation: BatchOperation
+  ): Promise<void> {
+    switch (operation.tool) {
+      case "move_document":
+      case "copy_document":
+      case "move_folder":
+        await this.validatePath(operation.sourcePath);
+        await this.validatePath(operation.destinationPath);
+        return;
+      case "rename_document":
+        await this.validatePath(operation.path);
+        await this.validatePath(
+          path.join(
+            path.dirname(operation.path),
+            operation.newName + path.extname(operation.path)
+          )
+        );
+        return;
+      default:
+        // Glob targets are checked per match when they run
+        if (!hasMagic(operation.path)) {
+          await this.validatePath(operation.path);
+        }
+    }
+  }
+
+  /**
+   * Run one batch operation through the matching handler method
+   * @private
+   */
+  private async runBatchOperation(
+    operation: BatchOperation
+  ): Promise<ToolResponse> {
+    switch (operation.tool) {
+      case "write_document":
+        return this.writeDocument(
+          operation.path,
+          operation.content,
+          operation.createDirectories,
+          operation.expectedHash
+        );
+      case "edit_document":
+        return this.editDocument(
+          operation.path,
+          operation.edits,
+          operation.dryRun,
+          operation.expectedHash
+        );
+      case "edit_section":
+        return this.editSection(
+          operation.path,
+          operation.section,
+          operation.operation,
+          operation.content,
+          operation.dryRun
+        );
+      case "replace_across_documents":
+        return this.replaceAcrossDocuments(
+          operation.pattern,
+          operation.replacement,
+          {
+            target: operation.path,
+            regex: operation.regex,
+            caseSensitive: operation.caseSensitive,
+            codeBlocks: operation.codeBlocks,
+            dryRun: operation.dryRun,
+          }
+        );
+      case "delete_document":
+        return this.deleteDocument(operation.path, operation.permanent);
+      case "create_documentation_folder":
+        return this.createFolder(operation.path, operation.createReadme);
+      case "move_document":
+        return this.moveDocument(
+          operation.sourcePath,
+          operation.destinationPath,
+          operation.updateReferences,
+          operation.moveAssets,
+          operation.expectedHash,
+          operation.dryRun
+        );
+      case "copy_document":
+        return this.copyDocument(
+          operation.sourcePath,
+          operation.destinationPath,
+          {
+            title: operation.title,
+            resetFields: operation.resetFields,
+            overwrite: operation.overwrite,
+          }
+        );
+      case "move_folder":
+        return this.moveFolder(
+          operation.sourcePath,
+          operation.destinationPath,
+          operation.updateReferences
+        );
+      case "rename_folder":
+        return this.renameFolder(
+          operation.path,
+          operation.newName,
+          operation.updateReferences
+        );
+      case "delete_folder":
+        return this.deleteFolder(operation.path, operation.permanent);
+      case "rename_document":
+        return this.renameDocument(
+          operation.path,
+          operation.newName,
+          operation.updateReferences,
+          operation.expectedHash,
+          operation.dryRun
+        );
+      case "update_documentation_navigation_order":
+        return this.updateNavigationOrder(operation.path, operation.order);
+      case "update_frontmatter":
+        return failOnDocumentErrors(
+          await this.updateDocumentFrontmatter(
+            operation.path,
+            operation.operations,
+            operation.dryRun
+          ),
+          operation.tool
+        );
+      case "migrate_frontmatter":
+        return failOnDocumentErrors(
+          await this.migrateFrontmatter(
+            operation.rules,
+            operation.path,
+            operation.dryRun
+          ),
+          operation.tool
+        );
+      case "create_documentation_section":
+        return this.createSection(
+          operation.title,
+          operation.path,
+          operation.order
+        );
+      case "convert_links":
+        return this.convertLinks(
+          operation.to,
+          operation.path,
+          operation.dryRun
+        );
+    }
+  }
+
+  /**
+   * List recent changes in the journal, newest first
+   * @param limit Maximum number of entries to return
+   */
+  async listChanges(limit = 20): Promise<ToolResponse> {
+    try {
+      const { entries: journal, unreadable } = await readJournal(this.docsDir);
+      const entries = journal.reverse().slice(0, limit);
+
+      const summaries = entries.map((entry) => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        tool: entry.tool,
+        summary: entry.summary,
+        files: entry.files.map((file) => file.path),
+        undone: entry.undoneAt !== undefined,
+      }));
+
+      let text =
+        entries.length === 0
+          ? "No changes recorded"
+          : entries
+              .map((entry) =>
+                entry.tool === "checkpoint"
+                  ? `#${entry.id} ${entry.timestamp} checkpoint "${entry.summary}"`
+                  : `#${entry.id} ${entry.timestamp} ${entry.tool} ${
+                      entry.summary
+                    } (${entry.files.length} files)${
+                      entry.undoneAt ? " [undone]" : ""
+                    }`
+              )
+              .join("\n");
+      if (unreadable.length > 0) {
+        text += `\n\nSkipped ${
+          unreadable.length
+        } unreadable journal entries: ${unreadable.join(", ")}`;
+      }
+
+      return {
+        content: [{ type: "text", text }],
+        metadata: { changes: summaries, unreadable },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error listing changes: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Mark the current state in the journal so later changes can be undone
+   * together
+   * @param name Name of the checkpoint
+   */
+  @serialized
+  async createCheckpoint(name: string): Promise<ToolResponse> {
+    try {
+      const entry = await appendJournalEntry(this.docsDir, {
+        timestamp: new Date().toISOString(),
+        tool: "checkpoint",
+        summary: name,
+        files: [],
+        createdDirectories: [],
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Created checkpoint "${name}" (#${entry.id})`,
+          },
+        ],
+        metadata: { id: entry.id, name },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error creating checkpoint: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Revert changes from the journal. Without an id or checkpoint the latest
+   * change is undone.
+   * @param options id of a single change, or a checkpoint (name or id) to
+   * undo everything after; force overwrites files changed since
+   */
+  @serialized
+  async undoChange(
+    options: { id?: number; checkpoint?: string; force?: boolean } = {}
+  ): Promise<ToolResponse> {
+    try {
+      const { entries } = await readJournal(this.docsDir);
+      const changes = this.selectJournalEntries(entries, options, false);
+      if (changes.length === 0) {
+        throw new Error("No changes to undo");
+      }
+
+      // Newest first, so each change sees the content it left behind
+      const files = await this.applyJournalEntries(
+        [...changes].reverse(),
+        "before",
+        options.force ?? false
+      );
+
+      const undoneAt = new Date().toISOString();
+      for (const entry of changes) {
+        await saveJournalEntry(this.docsDir, { ...entry, undoneAt });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Undid ${changes.length} changes:\n` +
+              changes
+                .map((entry) => `#${entry.id} ${entry.tool} ${entry.summary}`)
+                .join("\n"),
+          },
+        ],
+        metadata: { undone: changes.map((entry) => entry.id), files },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error undoing change: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Reapply undone changes from the journal. Without an id or checkpoint the
+   * most recently undone change is redone.
+   * @param options id of a single change, or a checkpoint (name or id) to
+   * redo everything after; force overwrites files changed since
+   */
+  @serialized
+  async redoChange(
+    options: { id?: number; checkpoint?: string; force?: boolean } = {}
+  ): Promise<ToolResponse> {
+    try {
+      const { entries } = await readJournal(this.docsDir);
+      const changes = this.selectJournalEntries(entries, options, true);
+      if (changes.length === 0) {
+        throw new Error("No undone changes to redo");
+      }
+
+      const files = await this.applyJournalEntries(
+        changes,
+        "after",
+        options.force ?? false
+      );
+
+      for (const { undoneAt: _undoneAt, ...entry } of changes) {
+        await saveJournalEntry(this.docsDir, entry);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Redid ${changes.length} changes:\n` +
+              changes
+                .map((entry) => `#${entry.id} ${entry.tool} ${entry.summary}`)
+                .join("\n"),
+          },
+        ],
+        metadata: { redone: changes.map((entry) => entry.id), files },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error redoing change: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Pick the journal entries an undo or redo applies to, oldest first
+   * @private
+   */
+  private selectJournalEntries(
+    entries: JournalEntry[],
+    options: { id?: number; checkpoint?: string },
+    undone: boolean
+  ): JournalEntry[] {
+    const candidates = entries.filter(
+      (entry) =>
+        entry.tool !== "checkpoint" && (entry.undoneAt !== undefined) === undone
+    );
+
+    if (options.id !== undefined) {
+      const entry = entries.find((entry) => entry.id === options.id);
+      if (!entry || entry.tool === "checkpoint") {
+        throw new Error(`No change with id ${options.id}`);
+      }
+      if ((entry.undoneAt !== undefined) !== undone) {
+        throw new Error(
+          `Change ${options.id} is ${undone ? "not undone" : "already undone"}`
+        );
+      }
+      return [entry];
+    }
+
+    if (options.checkpoint !== undefined) {
+      const checkpoint = [...entries]
+        .reverse()
+        .find(
+          (entry) =>
+            entry.tool === "checkpoint" &&
+            (entry.summary === options.checkpoint ||
+              String(entry.id) === options.checkpoint)
+        );
+      if (!checkpoint) {
+        throw new Error(`No checkpoint named ${options.checkpoint}`);
+      }
+      return candidates.filter((entry) => entry.id > checkpoint.id);
+    }
+
+    if (!undone) {
+      return candidates.slice(-1);
+    }
+    const latest = candidates.reduce<JournalEntry | null>(
+      (found, entry) =>
+        !found || entry.undoneAt! > found.undoneAt! ? entry : found,
+      null
+    );
+    return latest ? [latest] : [];
+  }
+
+  /**
+   * Restore one side of each journal entry in order. Every file must still
+   * hold the content the entry expects unless forced; nothing is written if
+   * any does not.
+   * @private
+   */
+  private async applyJournalEntries(
+    entries: JournalEntry[],
+    side: "before" | "after",
+    force: boolean
+  ): Promise<string[]> {
+    const expectedSide = side === "before" ? "after" : "before";
+    const state = new Map<string, Buffer | null>();
+
+    for (const entry of entries) {
+      for (const file of entry.files) {
+        const filePath = await this.validatePath(file.path);
+        if (!state.has(filePath)) {
+          try {
+            state.set(filePath, await fs.readFile(filePath));
+          } catch {
+            state.set(filePath, null);
+          }
+        }
+
+        const current = state.get(filePath)!;
+        const expected = decodeJournalContent(file, expectedSide);
+        const matches =
+          current === null || expected === null
+            ? current === expected
+            : current.equals(expected);
+        if (!matches && !force) {
+          throw new Error(
+            `Conflict: ${file.path} has changed since change #${entry.id}; pass force to overwrite it`
+          );
+        }
+
+        state.set(filePath, decodeJournalContent(file, side));
+      }
+    }
+
+    for (const [filePath, content] of state) {
+      if (content === null) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content);
+      }
+    }
+
+    // Remove folders the changes created once they are empty again
+    if (side === "before") {
+      const createdDirectories = entries
+        .flatMap((entry) => entry.createdDirectories)
+        .sort((a, b) => b.length - a.length);
+      for (const dirPath of createdDirectories) {
+        await fs.rmdir(await this.validatePath(dirPath)).catch(() => undefined);
+      }
+    } else {
+      for (const entry of entries) {
+        for (const dirPath of entry.createdDirectories) {
+          await fs.mkdir(await this.validatePath(dirPath), {
+            recursive: true,
+          });
+        }
+      }
+    }
+
+    return [...state.keys()]
+      .map((filePath) => path.relative(this.docsDir, filePath))
+      .sort();
+  }
+
+  /**
+   * Resolve a document path, folder or glob pattern to the markdown files it
+   * covers, relative to the docs directory
+   * @private
+   */
+  private async resolveDocumentPaths(target: string): Promise<string[]> {
+    let files: string[];
+
+    if (hasMagic(target)) {
+      files = await glob(target, { cwd: this.docsDir, nodir: true });
+    } else {
+      const validPath = await this.validatePath(target);
+      const stats = await fs.stat(validPath);
+      files = stats.isDirectory()
+        ? (await glob("**/*.md", { cwd: validPath })).map((file) =>
+            path.join(validPath, file)
+          )
+        : [validPath];
+    }
+
+    const documents: string[] = [];
+    for (const file of files) {
+      if (file.endsWith(".md")) {
+        const validPath = await this.validatePath(file);
+        documents.push(path.relative(this.docsDir, validPath));
+      }
+    }
+
+    return documents.sort();
+  }
+
+  /**
+   * Local non-markdown files that a document references and no other
+   * document does
+   * @private
+   */
+  private async findPrivateAssets(
+    filePath: string,
+    content: string
+  ): Promise<string[]> {
+    const linkContext = await createLinkContext(this.docsDir);
+    const assets = [
+      ...getReferencedPaths(linkContext, filePath, content),
+    ].filter(
+      (target) =>
+        !target.endsWith(".md") &&
+        linkContext.pages.some((page) => page.path === target)
+    );
+
+    const referencedElsewhere = new Set<string>();
+    for (const page of linkContext.pages) {
+      if (page.path.endsWith(".md") && page.path !== filePath) {
+        const pageContent = await fs.readFile(page.path, "utf-8");
+        getReferencedPaths(linkContext, page.path, pageContent).forEach(
+          (target) => referencedElsewhere.add(target)
+        );
+      }
+    }
+
+    return assets.filter((asset) => !referencedElsewhere.has(asset)).sort();
+  }
 
-      // Parse frontmatter
-      const { frontmatter, content: docContent } = parseFrontmatter(content);
+  /**
+   * Find every link to a document, or to one of its headings, from any
+   * document, including wiki-links and navigation.json entries
+   * @param target Document path, optionally with an anchor
+   * (`guides/setup.md#install`)
+   */
+  async getBacklinks(target: string): Promise<ToolResponse> {
+    try {
+      const hashIndex = target.indexOf("#");
+      const docPath = hashIndex === -1 ? target : target.slice(0, hashIndex);
+      const anchor =
+        hashIndex === -1 ? "" : slugify(target.slice(hashIndex + 1));
+      const validPath = await this.validatePath(docPath);
+      const relativePath = path.relative(this.docsDir, validPath);
 
-      // Update title in frontmatter if it exists
-      if (frontmatter.title) {
-        frontmatter.title = newName;
-      }
+      const context = await createLinkContext(this.docsDir);
+      const backlinks: Backlink[] = [];
+      const files = await glob("**/*.md", { cwd: this.docsDir });
+      for (const file of files.sort()) {
+        const filePath = path.join(this.docsDir, file);
+        const content = await fs.readFile(filePath, "utf-8");
 
-      // Reconstruct content with updated frontmatter
-      let frontmatterStr = "---\n";
-      for (const [key, value] of Object.entries(frontmatter)) {
-        if (Array.isArray(value)) {
-          frontmatterStr += `${key}:\n`;
-          for (const item of value) {
-            frontmatterStr += `  - ${item}\n`;
+        for (const resolved of resolveDocumentLinks(
+          context,
+          filePath,
+          content
+        )) {
+          if (
+            resolved.resolvedPath !== validPath ||
+            (anchor && slugify(resolved.anchor ?? "") !== anchor)
+          ) {
+            continue;
           }
-        } else {
-          frontmatterStr += `${key}: ${value}\n`;
+          const { link } = resolved;
+          backlinks.push({
+            file,
+            line: link.line,
+            kind: link.kind,
+            text: link.text,
+            url: link.kind === "wiki" ? `[[${link.url}]]` : link.url,
+            ...(resolved.anchor ? { anchor: resolved.anchor } : {}),
+            context: getLinkContext(content, link),
+          });
         }
       }
-      frontmatterStr += "---\n\n";
-
-      const updatedContent = frontmatterStr + docContent;
 
-      // Write to new path
-      await fs.writeFile(validNewPath, updatedContent, "utf-8");
-
-      // Delete the source file
-      await fs.unlink(validPath);
-
-      // Update references if requested
-      let referencesUpdated = 0;
-      if (updateReferences) {
-        const relativeSrcPath = path.relative(this.docsDir, validPath);
-        const relativeDestPath = path.relative(this.docsDir, validNewPath);
-        referencesUpdated = await this.updateReferences(
-          relativeSrcPath,
-          relativeDestPath
-        );
+      // Navigation entries point at whole documents
+      const navigation = anchor ? null : await readNavigationFile(this.docsDir);
+      const navigationEntries = navigation
+        ? findNavigationEntries(
+            navigation,
+            (entryPath) => path.join(this.docsDir, entryPath) === validPath
+          )
+        : [];
+
+      const documents = new Set(backlinks.map((backlink) => backlink.file));
+      let text = `Found ${backlinks.length} links to ${relativePath}${
+        anchor ? `#${anchor}` : ""
+      } in ${documents.size} documents`;
+      if (backlinks.length > 0) {
+        text +=
+          ":\n" +
+          backlinks
+            .map(
+              (backlink) =>
+                `- ${backlink.file}:${backlink.line} ${backlink.url}` +
+                (backlink.text ? ` "${backlink.text}"` : "") +
+                `\n  ${backlink.context}`
+            )
+            .join("\n");
+      }
+      if (navigationEntries.length > 0) {
+        text +=
+          `\n\n${navigationEntries.length} ${NAVIGATION_FILE} entries:\n` +
+          navigationEntries
+            .map((entry) => `- ${[...entry.trail, entry.title].join(" > ")}`)
+            .join("\n");
       }
 
       return {
-        content: [
-          {
-            type: "text",
-            text:
-              `Successfully renamed document from ${docPath} to ${newName}${ext}` +
-              (referencesUpdated > 0
-                ? `. Updated ${referencesUpdated} references.`
-                : ""),
-          },
-        ],
+        content: [{ type: "text", text }],
         metadata: {
-          originalPath: docPath,
-          newPath: path.relative(this.docsDir, validNewPath),
-          referencesUpdated,
+          path: relativePath,
+          anchor: anchor || undefined,
+          backlinks,
+          navigationEntries,
         },
       };
     } catch (error) {
@@ -598,7 +4025,7 @@ This is the documentation for ${folderName}.
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          { type: "text", text: `Error renaming document: ${errorMessage}` },
+          { type: "text", text: `Error finding backlinks: ${errorMessage}` },
         ],
         isError: true,
       };
@@ -606,60 +4033,77 @@ This is the documentation for ${folderName}.
   }
 
   /**
-   * Update navigation order for a document
+   * Validate links in documentation
    */
-  async updateNavigationOrder(
-    docPath: string,
-    order: number
-  ): Promise<ToolResponse> {
+  async validateLinks(basePath = "", recursive = true): Promise<ToolResponse> {
     try {
-      const validPath = await this.validatePath(docPath);
+      const validBasePath = await this.validatePath(basePath || this.docsDir);
 
-      // Check if file exists
-      try {
-        await fs.access(validPath);
-      } catch {
-        throw new Error(`File does not exist: ${docPath}`);
-      }
+      // Find all markdown files
+      const pattern = recursive ? "**/*.md" : "*.md";
+      const files = await glob(pattern, { cwd: validBasePath });
 
-      // Read the file
-      const content = await fs.readFile(validPath, "utf-8");
+      const brokenLinks: Array<{
+        file: string;
+        link: string;
+        lineNumber: number;
+        column: number;
+      }> = [];
+      const brokenAnchors: Array<{
+        file: string;
+        link: string;
+        anchor: string;
+        lineNumber: number;
+        column: number;
+      }> = [];
+      const linkContext = await createLinkContext(this.docsDir);
 
-      // Parse frontmatter
-      const { frontmatter, content: docContent } = parseFrontmatter(content);
+      // Check each file for links
+      for (const file of files) {
+        const filePath = path.join(validBasePath, file);
+        const content = await fs.readFile(filePath, "utf-8");
 
-      // Update order in frontmatter
-      frontmatter.order = order;
-
-      // Reconstruct content with updated frontmatter
-      let frontmatterStr = "---\n";
-      for (const [key, value] of Object.entries(frontmatter)) {
-        if (Array.isArray(value)) {
-          frontmatterStr += `${key}:\n`;
-          for (const item of value) {
-            frontmatterStr += `  - ${item}\n`;
+        for (const brokenLink of await findBrokenLinks(
+          linkContext,
+          filePath,
+          content
+        )) {
+          const location = {
+            file: path.relative(this.docsDir, filePath),
+            link: brokenLink.link,
+            lineNumber: brokenLink.line,
+            column: brokenLink.column,
+          };
+          if (brokenLink.reason === "missing_anchor") {
+            brokenAnchors.push({ ...location, anchor: brokenLink.anchor! });
+          } else {
+            brokenLinks.push(location);
           }
-        } else {
-          frontmatterStr += `${key}: ${value}\n`;
         }
       }
-      frontmatterStr += "---\n\n";
 
-      const updatedContent = frontmatterStr + docContent;
-
-      // Write updated content
-      await fs.writeFile(validPath, updatedContent, "utf-8");
+      const problems = [
+        brokenLinks.length > 0 ? `${brokenLinks.length} broken links` : "",
+        brokenAnchors.length > 0
+          ? `${brokenAnchors.length} missing anchors`
+          : "",
+      ].filter(Boolean);
 
       return {
         content: [
           {
             type: "text",
-            text: `Successfully updated navigation order for ${docPath} to ${order}`,
+            text:
+              problems.length > 0
+                ? `Found ${problems.join(" and ")} in ${files.length} files`
+                : `No broken links found in ${files.length} files`,
           },
         ],
         metadata: {
-          path: docPath,
-          order,
+          brokenLinks,
+          brokenAnchors,
+          filesChecked: files.length,
+          basePath: path.relative(this.docsDir, validBasePath),
         },
       };
     } catch (error) {
@@ -667,10 +4111,7 @@ This is the documentation for ${folderName}.
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          {
-            type: "text",
-            text: `Error updating navigation order: ${errorMessage}`,
-          },
+          { type: "text", text: `Error validating links: ${errorMessage}` },
         ],
         isError: true,
       };
@@ -678,50 +4119,128 @@ This is the documentation for ${folderName}.
   }
 
   /**
-   * Create a new navigation section
+   * Convert between wiki-links ([[Page#Heading|alias]]) and standard
+   * markdown links in a document, folder or glob of documents
+   * @param to Link style to convert to
+   * @param target Document path, folder or glob pattern
+   * @param dryRun Report the diffs without writing files
    */
-  async createSection(
-    title: string,
-    sectionPath: string,
-    order?: number
+  @recorded(
+    "convert_links",
+    (to: "markdown" | "wiki", target: string = "**/*.md") =>
+      `${target} to ${to}`
+  )
+  async convertLinks(
+    to: "markdown" | "wiki",
+    target = "**/*.md",
+    dryRun = false
   ): Promise<ToolResponse> {
     try {
-      // Create the directory for the section
-      const validPath = await this.validatePath(sectionPath);
-      await fs.mkdir(validPath, { recursive: true });
+      const files = await this.resolveDocumentPaths(target);
+      const linkContext = await createLinkContext(this.docsDir);
+      const headingCache = new Map<string, MarkdownHeading[]>();
+      const results: Array<{
+        path: string;
+        converted: number;
+        skipped: Array<{ link: string; line: number; reason: string }>;
+      }> = [];
+      let diffs = "";
 
-      // Create an index.md file for the section
-      const indexPath = path.join(validPath, "index.md");
-      const validIndexPath = await this.validatePath(indexPath);
+      for (const file of files) {
+        const filePath = path.join(this.docsDir, file);
+        const content = await fs.readFile(filePath, "utf-8");
+        const document = parseMarkdown(content);
+        const replacements: Array<{
+          start: number;
+          end: number;
+          text: string;
+        }> = [];
+        const skipped: Array<{
+          link: string;
+          line: number;
+          reason: string;
+        }> = [];
+
+        for (const link of document.links) {
+          const raw = content.slice(link.start, link.end);
+          const conversion =
+            to === "markdown"
+              ? this.wikiToMarkdownLink(linkContext, filePath, link)
+              : await this.markdownToWikiLink(
+                  linkContext,
+                  headingCache,
+                  filePath,
+                  link
+                );
 
-      // Create content with frontmatter
-      let content = "---\n";
-      content += `title: ${title}\n`;
-      content += `description: ${title} section\n`;
-      content += `date: ${new Date().toISOString()}\n`;
-      content += `status: published\n`;
-      if (order !== undefined) {
-        content += `order: ${order}\n`;
+          if (conversion === null) {
+            continue;
+          } else if ("reason" in conversion) {
+            skipped.push({
+              link: raw,
+              line: link.line,
+              reason: conversion.reason,
+            });
+          } else {
+            replacements.push({
+              start: link.start,
+              end: link.end,
+              text: conversion.text,
+            });
+          }
+        }
+
+        const updatedContent = replaceRanges(content, replacements);
+        if (updatedContent !== content) {
+          diffs += formatDiff(createUnifiedDiff(content, updatedContent, file));
+          if (!dryRun) {
+            await this.writeFile(filePath, updatedContent);
+          }
+        }
+
+        if (replacements.length > 0 || skipped.length > 0) {
+          results.push({
+            path: file,
+            converted: replacements.length,
+            skipped,
+          });
+        }
       }
-      content += "---\n\n";
-      content += `# ${title}\n\n`;
-      content += `Welcome to the ${title} section.\n`;
 
-      // Write the index file
-      await fs.writeFile(validIndexPath, content, "utf-8");
+      const convertedCount = results.reduce(
+        (total, result) => total + result.converted,
+        0
+      );
+      const skippedLinks = results.flatMap((result) =>
+        result.skipped.map((skip) => ({ path: result.path, ...skip }))
+      );
+
+      let text = `${
+        dryRun ? "Would convert" : "Converted"
+      } ${convertedCount} links to ${
+        to === "wiki" ? "wiki-links" : "markdown links"
+      } in ${results.filter((result) => result.converted > 0).length} of ${
+        files.length
+      } documents`;
+      if (skippedLinks.length > 0) {
+        text +=
+          `\nSkipped ${skippedLinks.length} links:\n` +
+          skippedLinks
+            .map(
+              (skip) =>
+                `- ${skip.path}:${skip.line} ${skip.link}: ${skip.reason}`
+            )
+            .join("\n");
+      }
 
       return {
-        content: [
-          {
-            type: "text",
-            text: `Successfully created section: ${title} at ${sectionPath}`,
-          },
-        ],
+        content: [{ type: "text", text: diffs ? `${text}\n\n${diffs}` : text }],
         metadata: {
-          title,
-          path: sectionPath,
-          indexPath: path.join(sectionPath, "index.md"),
-          order,
+          target,
+          to,
+          dryRun,
+          convertedCount,
+          files: results,
         },
       };
     } catch (error) {
@@ -729,7 +4248,7 @@ This is the documentation for ${folderName}.
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          { type: "text", text: `Error creating section: ${errorMessage}` },
+          { type: "text", text: `Error converting links: ${errorMessage}` },
         ],
         isError: true,
       };
@@ -737,116 +4256,153 @@ This is the documentation for ${folderName}.
   }
 
   /**
-   * Update references to a moved or renamed document
+   * Markdown equivalent of a wiki-link, or null for other kinds of links
    * @private
    */
-  private async updateReferences(
-    oldPath: string,
-    newPath: string
-  ): Promise<number> {
-    // Normalize paths for comparison
-    const normalizedOldPath = oldPath.replace(/\\/g, "/");
-    const normalizedNewPath = newPath.replace(/\\/g, "/");
+  private wikiToMarkdownLink(
+    context: LinkContext,
+    filePath: string,
+    link: MarkdownLink
+  ): { text: string } | { reason: string } | null {
+    if (link.kind !== "wiki") {
+      return null;
+    }
 
-    // Find all markdown files
-    const files = await glob("**/*.md", { cwd: this.docsDir });
-    let updatedCount = 0;
+    const { page, heading } = splitWikiTarget(link.url);
+    const resolvedPath = page
+      ? resolveWikiTarget(context, filePath, page)
+      : filePath;
+    if (!resolvedPath) {
+      return { reason: "target not found" };
+    }
+    if (heading.startsWith("^")) {
+      return { reason: "block references have no markdown equivalent" };
+    }
+    if (link.isImage && resolvedPath.endsWith(".md")) {
+      return { reason: "embedded documents have no markdown equivalent" };
+    }
 
-    for (const file of files) {
-      const filePath = path.join(this.docsDir, file);
-      const content = await fs.readFile(filePath, "utf-8");
+    let href =
+      resolvedPath === filePath
+        ? ""
+        : toPosix(path.relative(path.dirname(filePath), resolvedPath));
+    if (heading) {
+      href += `#${slugify(heading)}`;
+    }
+    if (/[\s()<>]/.test(href)) {
+      href = `<${href}>`;
+    }
 
-      // Look for references to the old path
-      // Match markdown links: [text](path)
-      const linkRegex = new RegExp(
-        `\\[([^\\]]+)\\]\\(${normalizedOldPath.replace(
-          /[.*+?^${}()|[\]\\]/g,
-          "\\$&"
-        )}\\)`,
-        "g"
-      );
+    const hasAlias = link.text !== link.url;
+    if (link.isImage) {
+      return {
+        text: `![${
+          hasAlias ? link.text : path.basename(resolvedPath)
+        }](${href})`,
+      };
+    }
 
-      // Match direct path references
-      const pathRegex = new RegExp(
-        normalizedOldPath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
-        "g"
-      );
+    const label = hasAlias
+      ? link.text
+      : page && heading
+      ? `${page} > ${heading}`
+      : page || heading;
+    return { text: `[${label}](${href})` };
+  }
 
-      // Replace references
-      let updatedContent = content.replace(
-        linkRegex,
-        `[$1](${normalizedNewPath})`
-      );
-      updatedContent = updatedContent.replace(pathRegex, normalizedNewPath);
+  /**
+   * Wiki-link equivalent of an inline markdown link to a document, or null
+   * for links that are not to local documents
+   * @private
+   */
+  private async markdownToWikiLink(
+    context: LinkContext,
+    headingCache: Map<string, MarkdownHeading[]>,
+    filePath: string,
+    link: MarkdownLink
+  ): Promise<{ text: string } | { reason: string } | null> {
+    if (link.kind !== "inline" || link.isImage || isExternalUrl(link.url)) {
+      return null;
+    }
 
-      // If content changed, write the updated file
-      if (updatedContent !== content) {
-        await fs.writeFile(filePath, updatedContent, "utf-8");
-        updatedCount++;
+    const resolvedPath =
+      resolveLinkPath(this.docsDir, filePath, link.url) ?? filePath;
+    if (!resolvedPath.endsWith(".md")) {
+      return null;
+    }
+    if (!context.pages.some((page) => page.path === resolvedPath)) {
+      return { reason: "target not found" };
+    }
+
+    // Wiki-links address headings by text rather than by slug
+    let heading = "";
+    const slug = splitLinkUrl(link.url).fragment.slice(1);
+    if (slug) {
+      let headings = headingCache.get(resolvedPath);
+      if (!headings) {
+        headings = parseMarkdown(
+          await fs.readFile(resolvedPath, "utf-8")
+        ).headings;
+        headingCache.set(resolvedPath, headings);
       }
+      const match = headings.find((candidate) => candidate.slug === slug);
+      if (!match) {
+        return { reason: `anchor #${slug} not found` };
+      }
+      heading = match.text;
+    }
+
+    if (/\||\]\]|\[\[/.test(link.text + heading)) {
+      return { reason: "link text cannot be used in a wiki-link" };
     }
 
-    return updatedCount;
+    const page =
+      resolvedPath === filePath
+        ? ""
+        : getWikiPageName(context, filePath, resolvedPath);
+    const wikiTarget = heading ? `${page}#${heading}` : page;
+    const alias =
+      link.text && link.text !== page && link.text !== wikiTarget
+        ? `|${link.text}`
+        : "";
+    return { text: `[[${wikiTarget}${alias}]]` };
   }
 
   /**
-   * Validate links in documentation
+   * Find asset files (anything that is not markdown) that no document
+   * links to or embeds
    */
-  async validateLinks(basePath = "", recursive = true): Promise<ToolResponse> {
+  async findUnusedAssets(basePath = ""): Promise<ToolResponse> {
     try {
       const validBasePath = await this.validatePath(basePath || this.docsDir);
+      const linkContext = await createLinkContext(this.docsDir);
+
+      const referenced = new Set<string>();
+      for (const page of linkContext.pages) {
+        if (page.path.endsWith(".md")) {
+          const content = await fs.readFile(page.path, "utf-8");
+          getReferencedPaths(linkContext, page.path, content).forEach(
+            (target) => referenced.add(target)
+          );
+        }
+      }
 
-      // Find all markdown files
-      const pattern = recursive ? "**/*.md" : "*.md";
-      const files = await glob(pattern, { cwd: validBasePath });
-
-      const brokenLinks: Array<{
-        file: string;
-        link: string;
-        lineNumber: number;
-      }> = [];
-
-      // Check each file for links
-      for (const file of files) {
-        const filePath = path.join(validBasePath, file);
-        const content = await fs.readFile(filePath, "utf-8");
-        const lines = content.split("\n");
-
-        // Find markdown links: [text](path)
-        const linkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          let match;
-
-          while ((match = linkRegex.exec(line)) !== null) {
-            const [, , linkPath] = match;
-
-            // Skip external links and anchors
-            if (
-              linkPath.startsWith("http://") ||
-              linkPath.startsWith("https://") ||
-              linkPath.startsWith("#") ||
-              linkPath.startsWith("mailto:")
-            ) {
-              continue;
-            }
+      const unusedAssets: Array<{ path: string; size: number }> = [];
+      let assetCount = 0;
+      for (const page of linkContext.pages) {
+        const relativePath = path.relative(this.docsDir, page.path);
+        if (
+          page.path.endsWith(".md") ||
+          SERVICE_FILES.includes(relativePath) ||
+          !page.path.startsWith(validBasePath + path.sep)
+        ) {
+          continue;
+        }
 
-            // Resolve the link path relative to the current file
-            const fileDir = path.dirname(filePath);
-            const resolvedPath = path.resolve(fileDir, linkPath);
-
-            // Check if the link target exists
-            try {
-              await fs.access(resolvedPath);
-            } catch {
-              brokenLinks.push({
-                file: path.relative(this.docsDir, filePath),
-                link: linkPath,
-                lineNumber: i + 1,
-              });
-            }
-          }
+        assetCount++;
+        if (!referenced.has(page.path)) {
+          const stats = await fs.stat(page.path);
+          unusedAssets.push({ path: relativePath, size: stats.size });
         }
       }
 
@@ -855,14 +4411,17 @@ This is the documentation for ${folderName}.
           {
             type: "text",
             text:
-              brokenLinks.length > 0
-                ? `Found ${brokenLinks.length} broken links in ${files.length} files`
-                : `No broken links found in ${files.length} files`,
+              unusedAssets.length > 0
+                ? `Found ${unusedAssets.length} unused assets out of ${assetCount}:\n` +
+                  unusedAssets
+                    .map((asset) => `- ${asset.path} (${asset.size} bytes)`)
+                    .join("\n")
+                : `No unused assets found among ${assetCount} assets`,
           },
         ],
         metadata: {
-          brokenLinks,
-          filesChecked: files.length,
+          unusedAssets,
+          assetsChecked: assetCount,
           basePath: path.relative(this.docsDir, validBasePath),
         },
       };
@@ -871,7 +4430,10 @@ This is the documentation for ${folderName}.
         error instanceof Error ? error.message : String(error);
       return {
         content: [
-          { type: "text", text: `Error validating links: ${errorMessage}` },
+          {
+            type: "text",
+            text: `Error finding unused assets: ${errorMessage}`,
+          },
         ],
         isError: true,
       };
@@ -888,8 +4450,10 @@ This is the documentation for ${folderName}.
     try {
       const validBasePath = await this.validatePath(basePath || this.docsDir);
 
-      // Default required fields if not specified
-      const fields = requiredFields || ["title", "description", "status"];
+      // Load the metadata schema from the docs root, if there is one
+      const schema = await loadMetadataSchema(this.docsDir);
+      const fields =
+        requiredFields || schema?.required || DEFAULT_REQUIRED_FIELDS;
 
       // Find all markdown files
       const files = await glob("**/*.md", { cwd: validBasePath });
@@ -898,28 +4462,49 @@ This is the documentation for ${folderName}.
         file: string;
         missingFields: string[];
       }> = [];
+      const invalidMetadata: Array<MetadataViolation & { file: string }> = [];
+      let totalFields = 0;
 
       // Check each file for metadata
       for (const file of files) {
         const filePath = path.join(validBasePath, file);
+        const relativePath = path.relative(this.docsDir, filePath);
         const content = await fs.readFile(filePath, "utf-8");
 
         // Parse frontmatter
         const { frontmatter } = parseFrontmatter(content);
 
-        // Check for required fields
-        const missing = fields.filter((field) => !frontmatter[field]);
+        // Check required fields, types and allowed values
+        totalFields += getRequiredFields(
+          schema,
+          relativePath,
+          requiredFields
+        ).length;
+        const violations = validateFrontmatter(
+          schema,
+          relativePath,
+          frontmatter,
+          requiredFields
+        );
+        const missing = violations
+          .filter((violation) => violation.kind === "missing")
+          .map((violation) => violation.field);
 
         if (missing.length > 0) {
           missingMetadata.push({
-            file: path.relative(this.docsDir, filePath),
+            file: relativePath,
             missingFields: missing,
           });
         }
+
+        for (const violation of violations) {
+          if (violation.kind !== "missing") {
+            invalidMetadata.push({ file: relativePath, ...violation });
+          }
+        }
       }
 
       // Calculate completeness percentage
-      const totalFields = files.length * fields.length;
       const missingFields = missingMetadata.reduce(
         (sum, item) => sum + item.missingFields.length,
         0
@@ -929,20 +4514,33 @@ This is the documentation for ${folderName}.
           ? Math.round(((totalFields - missingFields) / totalFields) * 100)
           : 100;
 
+      const summary =
+        missingMetadata.length > 0
+          ? `Found ${missingMetadata.length} files with missing metadata. Completeness: ${completenessPercentage}%`
+          : `All ${files.length} files have complete metadata. Completeness: 100%`;
+      const details = invalidMetadata.map(
+        (violation) =>
+          `- ${violation.file}: ${violation.message} (expected ${violation.expected}, got ${violation.actual})`
+      );
+
       return {
         content: [
           {
             type: "text",
             text:
-              missingMetadata.length > 0
-                ? `Found ${missingMetadata.length} files with missing metadata. Completeness: ${completenessPercentage}%`
-                : `All ${files.length} files have complete metadata. Completeness: 100%`,
+              invalidMetadata.length > 0
+                ? `${summary}\nFound ${
+                    invalidMetadata.length
+                  } invalid metadata values:\n${details.join("\n")}`
+                : summary,
           },
         ],
         metadata: {
           missingMetadata,
+          invalidMetadata,
           filesChecked: files.length,
           requiredFields: fields,
+          schemaFile: schema ? METADATA_SCHEMA_FILE : null,
           completenessPercentage,
           basePath: path.relative(this.docsDir, validBasePath),
         },
@@ -959,9 +4557,129 @@ This is the documentation for ${folderName}.
     }
   }
 
+  /**
+   * Fill in missing title, description and status fields with values
+   * inferred from each document's content
+   */
+  @recorded(
+    "validate_documentation_metadata",
+    (basePath: string = "") => basePath || "."
+  )
+  async fixMetadata(
+    basePath = "",
+    options: {
+      requiredFields?: string[];
+      defaultStatus?: string;
+      dryRun?: boolean;
+    } = {}
+  ): Promise<ToolResponse> {
+    const { requiredFields, defaultStatus = "draft", dryRun = true } = options;
+
+    try {
+      const validBasePath = await this.validatePath(basePath || this.docsDir);
+      const schema = await loadMetadataSchema(this.docsDir);
+      const files = await glob("**/*.md", { cwd: validBasePath });
+
+      const fixed: Array<{ file: string; filled: Record<string, string> }> = [];
+      let diffs = "";
+
+      for (const file of files.sort()) {
+        const filePath = path.join(validBasePath, file);
+        const relativePath = path.relative(this.docsDir, filePath);
+        const content = await fs.readFile(filePath, "utf-8");
+        const {
+          frontmatter,
+          content: body,
+          errors,
+        } = parseFrontmatter(content);
+
+        // Leave unreadable frontmatter for a human to fix
+        if (errors.length > 0) continue;
+
+        const missing = validateFrontmatter(
+          schema,
+          relativePath,
+          frontmatter,
+          requiredFields
+        )
+          .filter((violation) => violation.kind === "missing")
+          .map((violation) => violation.field);
+
+        const inferred: Record<string, string | null> = {
+          title: extractFirstHeading(body) || this.getTitleFromFilename(file),
+          description: extractFirstParagraph(body),
+          status: defaultStatus,
+        };
+        const filled: Record<string, string> = {};
+        for (const field of missing) {
+          const value = inferred[field];
+          if (value) {
+            filled[field] = value;
+          }
+        }
+
+        if (Object.keys(filled).length === 0) continue;
+
+        const updatedContent = updateFrontmatter(content, (data) => ({
+          ...data,
+          ...filled,
+        }));
+        diffs += formatDiff(
+          createUnifiedDiff(content, updatedContent, relativePath)
+        );
+        fixed.push({ file: relativePath, filled });
+
+        if (!dryRun) {
+          await this.writeFile(filePath, updatedContent);
+        }
+      }
+
+      const summary =
+        fixed.length > 0
+          ? `${dryRun ? "Would fill" : "Filled"} missing metadata in ${
+              fixed.length
+            } of ${files.length} files:\n` +
+            fixed
+              .map(
+                (item) =>
+                  `- ${item.file}: ${Object.keys(item.filled).join(", ")}`
+              )
+              .join("\n")
+          : `No missing metadata could be inferred in ${files.length} files`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: diffs ? `${summary}\n\n${diffs}` : summary,
+          },
+        ],
+        metadata: {
+          fixed,
+          dryRun,
+          filesChecked: files.length,
+          basePath: path.relative(this.docsDir, validBasePath),
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          { type: "text", text: `Error fixing metadata: ${errorMessage}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+
   /**
    * Generate a consolidated documentation file optimized for LLM consumption
    */
+  @recorded(
+    "consolidate_documentation",
+    (basePath: string = "") => basePath || "."
+  )
   async generateConsolidatedDocumentation(
     basePath: string = "",
     options: {
@@ -1206,7 +4924,7 @@ This is the documentation for ${folderName}.
         ? outputPath
         : path.join(process.cwd(), outputPath);
 
-      await fs.writeFile(outputFullPath, consolidatedContent, "utf-8");
+      await this.writeFile(outputFullPath, consolidatedContent);
 
       // Return success response
       return {
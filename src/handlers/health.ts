@@ -9,9 +9,16 @@ import fs from "fs/promises";
 import { glob } from "glob";
 import { safeLog } from "../utils/logging.js";
 import { ToolResponse } from "../types/tools.js";
-import { parseFrontmatter, DocumentHandler } from "./documents.js";
+import { parseFrontmatter } from "../utils/frontmatter.js";
+import { createLinkContext, findBrokenLinks } from "../utils/links.js";
 import { NavigationHandler } from "./navigation.js";
 import { HealthCheckResult, HealthIssue } from "../types/docs.js";
+import { MetadataSchema } from "../schemas/metadata.js";
+import {
+  loadMetadataSchema,
+  validateFrontmatter,
+  getRequiredFields,
+} from "../utils/metadata-schema.js";
 import * as pathUtils from "../utils/path.js";
 
 export interface HealthCheckOptions {
@@ -58,7 +65,7 @@ export class HealthCheckHandler {
           content: [
             {
               type: "text",
-              text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Orphaned Documents: 0\n\nNote: No documentation found at ${docsPath}. Creating a default structure is recommended.`,
+              text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Broken Anchors: 0\n- Orphaned Documents: 0\n\nNote: No documentation found at ${docsPath}. Creating a default structure is recommended.`,
             },
           ],
           metadata: {
@@ -67,6 +74,7 @@ export class HealthCheckHandler {
             issues: [],
             metadataCompleteness: 100,
             brokenLinks: 0,
+            brokenAnchors: 0,
             orphanedDocuments: 0,
             missingReferences: 0,
             documentsByStatus: {},
@@ -87,7 +95,7 @@ export class HealthCheckHandler {
           content: [
             {
               type: "text",
-              text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Orphaned Documents: 0\n\nNote: No markdown files found in ${docsPath}. Creating documentation is recommended.`,
+              text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Broken Anchors: 0\n- Orphaned Documents: 0\n\nNote: No markdown files found in ${docsPath}. Creating documentation is recommended.`,
             },
           ],
           metadata: {
@@ -96,6 +104,7 @@ export class HealthCheckHandler {
             issues: [],
             metadataCompleteness: 100,
             brokenLinks: 0,
+            brokenAnchors: 0,
             orphanedDocuments: 0,
             missingReferences: 0,
             documentsByStatus: {},
@@ -110,6 +119,7 @@ export class HealthCheckHandler {
         totalDocuments: files.length,
         metadataCompleteness: 0,
         brokenLinks: 0,
+        brokenAnchors: 0,
         orphanedDocuments: 0,
         missingReferences: 0,
         issues: [],
@@ -117,10 +127,28 @@ export class HealthCheckHandler {
         documentsByTag: {},
       };
 
-      // Track required metadata fields
-      const requiredFields = ["title", "description", "status"];
+      // Load the metadata schema from the docs root, if there is one. A
+      // broken schema is reported rather than scored as healthy.
+      let schema: MetadataSchema | null;
+      try {
+        schema = await loadMetadataSchema(this.docsDir);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error checking documentation health: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
       let totalFields = 0;
       let presentFields = 0;
+      const linkContext = await createLinkContext(this.docsDir);
 
       // Process each file
       for (const file of files) {
@@ -130,20 +158,41 @@ export class HealthCheckHandler {
           const content = await fs.readFile(file, "utf-8");
           const { frontmatter } = parseFrontmatter(content);
 
-          // Check metadata completeness
-          for (const field of requiredFields) {
-            totalFields++;
-            if (frontmatter[field]) {
-              presentFields++;
-            } else {
-              results.issues.push({
-                path: relativePath,
-                type: "missing_metadata",
-                severity: "warning",
-                message: `Missing required field: ${field}`,
-                details: `The ${field} field is required in frontmatter`,
-              });
-            }
+          // Check metadata completeness, types and allowed values
+          const requiredFields = getRequiredFields(schema, relativePath);
+          const violations = validateFrontmatter(
+            schema,
+            relativePath,
+            frontmatter
+          );
+          totalFields += requiredFields.length;
+          presentFields +=
+            requiredFields.length -
+            violations.filter((violation) => violation.kind === "missing")
+              .length;
+
+          for (const violation of violations) {
+            results.issues.push(
+              violation.kind === "missing"
+                ? {
+                    path: relativePath,
+                    type: "missing_metadata",
+                    severity: "warning",
+                    message: violation.message,
+                    details: `The ${violation.field} field is required in frontmatter`,
+                    field: violation.field,
+                  }
+                : {
+                    path: relativePath,
+                    type: `invalid_metadata_${violation.kind}`,
+                    severity: "warning",
+                    message: violation.message,
+                    details: `Expected ${violation.expected}, got ${violation.actual}`,
+                    field: violation.field,
+                    expected: violation.expected,
+                    actual: violation.actual,
+                  }
+            );
           }
 
           // Track documents by status
@@ -159,40 +208,34 @@ export class HealthCheckHandler {
             }
           }
 
-          // Check for broken links
-          const linkRegex = /\[.*?\]\((.*?)\)/g;
-          let match;
-          while ((match = linkRegex.exec(content)) !== null) {
-            const link = match[1];
-
-            // Skip external links and anchors
-            if (link.startsWith("http") || link.startsWith("#")) {
-              continue;
-            }
-
-            // Resolve the link path
-            let linkPath;
-            if (link.startsWith("/")) {
-              // Absolute path within docs
-              linkPath = path.join(this.docsDir, link);
-            } else {
-              // Relative path
-              linkPath = path.join(path.dirname(file), link);
-            }
-
-            // Check if the link target exists
-            try {
-              await fs.access(linkPath);
-            } catch {
-              results.brokenLinks++;
+          // Check for broken links and anchors
+          for (const brokenLink of await findBrokenLinks(
+            linkContext,
+            file,
+            content
+          )) {
+            if (brokenLink.reason === "missing_anchor") {
+              results.brokenAnchors++;
               results.issues.push({
                 path: relativePath,
-                type: "broken_link",
-                severity: "error",
-                message: `Broken link: ${link}`,
-                details: `The link to ${link} is broken`,
+                type: "broken_anchor",
+                severity: "warning",
+                message: `Missing anchor: ${brokenLink.link}`,
+                details: `No heading or anchor #${brokenLink.anchor} exists for the link on line ${brokenLink.line}`,
+                line: brokenLink.line,
               });
+              continue;
             }
+
+            results.brokenLinks++;
+            results.issues.push({
+              path: relativePath,
+              type: "broken_link",
+              severity: "error",
+              message: `Broken link: ${brokenLink.link}`,
+              details: `The link to ${brokenLink.link} on line ${brokenLink.line} is broken`,
+              line: brokenLink.line,
+            });
           }
         } catch (error) {
           // Log the error but continue processing
@@ -215,6 +258,7 @@ Summary:
 - Total Documents: ${results.totalDocuments}
 - Metadata Completeness: ${results.metadataCompleteness}%
 - Broken Links: ${results.brokenLinks}
+- Broken Anchors: ${results.brokenAnchors}
 - Orphaned Documents: ${results.orphanedDocuments}
 
 ${results.issues.length > 0 ? "Issues:" : "No issues found."}
@@ -233,7 +277,7 @@ ${results.issues
         content: [
           {
             type: "text",
-            text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Orphaned Documents: 0\n\nNote: An error occurred while checking documentation health, but the service will continue to function.`,
+            text: `Documentation Health Report:\nHealth Score: 100/100\n\nSummary:\n- Total Documents: 0\n- Metadata Completeness: 100%\n- Broken Links: 0\n- Broken Anchors: 0\n- Orphaned Documents: 0\n\nNote: An error occurred while checking documentation health, but the service will continue to function.`,
           },
         ],
         metadata: {
@@ -242,6 +286,7 @@ ${results.issues
           issues: [],
           metadataCompleteness: 100,
           brokenLinks: 0,
+          brokenAnchors: 0,
           orphanedDocuments: 0,
           missingReferences: 0,
           documentsByStatus: {},
@@ -284,6 +329,15 @@ ${results.issues
         : brokenLinksDeduction;
     }
 
+    // Deduct points for broken anchors
+    if (results.brokenAnchors > 0) {
+      // Deduct 1 point per broken anchor, up to 10 points
+      const brokenAnchorsDeduction = Math.min(results.brokenAnchors, 10);
+      score -= toleranceMode
+        ? Math.min(brokenAnchorsDeduction, 3)
+        : brokenAnchorsDeduction;
+    }
+
     // Deduct points for orphaned documents
     if (results.orphanedDocuments > 0) {
       // Deduct 5 points per orphaned document, up to 20 points
@@ -9,7 +9,7 @@ import path from "path";
 import { glob } from "glob";
 import { safeLog } from "../utils/logging.js";
 import { ToolResponse } from "../types/tools.js";
-import { parseFrontmatter } from "./documents.js";
+import { parseFrontmatter } from "../utils/frontmatter.js";
 
 export class NavigationHandler {
   private docsDir: string;
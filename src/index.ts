@@ -23,19 +23,42 @@ import { safeLog, expandHome, normalizePath } from "./utils/index.js";
 // Import schemas
 import {
   ReadDocumentSchema,
+  GetDocumentOutlineSchema,
   WriteDocumentSchema,
   EditDocumentSchema,
+  EditSectionSchema,
+  ReplaceAcrossDocumentsSchema,
+  ApplyPatchSchema,
   ListDocumentsSchema,
   SearchDocumentsSchema,
+  DeleteDocumentSchema,
+  ListTrashSchema,
+  RestoreDocumentSchema,
+  EmptyTrashSchema,
   CheckDocumentationHealthSchema,
   CreateFolderSchema,
   MoveDocumentSchema,
   RenameDocumentSchema,
+  CopyDocumentSchema,
+  MoveFolderSchema,
+  RenameFolderSchema,
+  DeleteFolderSchema,
+  ExportRedirectsSchema,
   UpdateNavigationOrderSchema,
+  UpdateFrontmatterSchema,
+  MigrateFrontmatterSchema,
   CreateSectionSchema,
   ValidateLinksSchema,
+  GetBacklinksSchema,
+  ConvertLinksSchema,
+  FindUnusedAssetsSchema,
   ValidateMetadataSchema,
   ConsolidateDocumentationSchema,
+  BatchOperationsSchema,
+  ListChangesSchema,
+  CreateCheckpointSchema,
+  UndoChangeSchema,
+  RedoChangeSchema,
 } from "./schemas/index.js";
 
 // Import handlers
@@ -53,6 +76,8 @@ let runHealthCheck = false;
 let singleDoc = false;
 let singleDocOutput = "consolidated-docs.md";
 let maxTokens = 200000;
+let migrationRulesFile: string | null = null;
+let dryRun = false;
 
 // Parse arguments
 for (let i = 0; i < args.length; i++) {
@@ -73,6 +98,9 @@ Options:
   --single-doc            Generate a single consolidated documentation file for LLM consumption
   --output <path>         Output path for consolidated documentation (default: consolidated-docs.md)
   --max-tokens <number>   Maximum tokens for consolidated documentation (default: 200000)
+  --migrate-frontmatter <rules.json>
+                          Apply frontmatter migration rules from a JSON file and exit
+  --dry-run               Preview changes made by --migrate-frontmatter without writing
   --help, -h              Show this help information
 `);
     process.exit(0);
@@ -91,6 +119,11 @@ Options:
   } else if (args[i] === "--max-tokens" && i + 1 < args.length) {
     maxTokens = parseInt(args[i + 1], 10);
     i++;
+  } else if (args[i] === "--migrate-frontmatter" && i + 1 < args.length) {
+    migrationRulesFile = path.resolve(args[i + 1]);
+    i++;
+  } else if (args[i] === "--dry-run") {
+    dryRun = true;
   } else if (!args[i].startsWith("--")) {
     docsDir = path.resolve(args[i]);
   }
@@ -185,11 +218,46 @@ async function main() {
     }
   }
 
+  // If a migration rules file is given, apply it and exit
+  if (migrationRulesFile) {
+    safeLog(`Migrating frontmatter with rules from ${migrationRulesFile}...`);
+    try {
+      // The rules file holds either a list of rules or { path, rules }
+      const rulesData = JSON.parse(
+        await fs.readFile(migrationRulesFile, "utf-8")
+      );
+      const parsed = MigrateFrontmatterSchema.safeParse(
+        Array.isArray(rulesData) ? { rules: rulesData } : rulesData
+      );
+      if (!parsed.success) {
+        throw new Error(`Invalid migration rules: ${parsed.error}`);
+      }
+
+      const result = await documentHandler.migrateFrontmatter(
+        parsed.data.rules,
+        parsed.data.path,
+        dryRun
+      );
+      console.log(result.content[0].text);
+      process.exit(result.isError ? 1 : 0);
+    } catch (error) {
+      safeLog(
+        `Error migrating frontmatter: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      process.exit(1);
+    }
+  }
+
   // Server setup
-  const server = new Server({
-    name: "mcp-docs-service",
-    version: "0.5.2",
-  });
+  const server = new Server(
+    {
+      name: "mcp-docs-service",
+      version: "0.5.2",
+    },
+    { capabilities: { tools: {} } }
+  );
 
   // Tool handlers
   server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -200,24 +268,74 @@ async function main() {
           description:
             "Read a markdown document from the docs directory. Returns the document content " +
             "including frontmatter. Use this tool when you need to examine the contents of a " +
-            "single document.",
+            "single document. To read part of a long document, pass a section (heading anchor " +
+            "or heading path such as 'Installation > Linux'), a line offset and limit, or a " +
+            "maxTokens budget; the metadata reports which lines were returned and whether " +
+            "more content remains. The metadata also includes a hash of the whole document; " +
+            "pass it as expectedHash when writing, editing, moving or renaming to fail with " +
+            "a conflict if the document changed in the meantime.",
           inputSchema: zodToJsonSchema(ReadDocumentSchema) as any,
         },
+        {
+          name: "get_document_outline",
+          description:
+            "Get the heading outline of a document, or of every document in a folder. " +
+            "Returns each heading's level, text, anchor slug, the lines its section spans, " +
+            "and word and token estimates. Use this to find the right section of a long " +
+            "document before reading it.",
+          inputSchema: zodToJsonSchema(GetDocumentOutlineSchema) as any,
+        },
         {
           name: "write_document",
           description:
             "Create a new markdown document or completely overwrite an existing document with new content. " +
             "Use with caution as it will overwrite existing documents without warning. " +
-            "Can create parent directories if they don't exist.",
+            "Can create parent directories if they don't exist. Pass expectedHash from " +
+            "read_document to refuse the write if the document has changed since.",
           inputSchema: zodToJsonSchema(WriteDocumentSchema) as any,
         },
         {
           name: "edit_document",
           description:
             "Make line-based edits to a markdown document. Each edit replaces exact line sequences " +
-            "with new content. Returns a git-style diff showing the changes made.",
+            "with new content. Returns a git-style diff showing the changes made. If oldText " +
+            "matches more than once the edit fails and lists the matching lines; set occurrence " +
+            "(1-based), startLine (closest match wins) or replaceAll to choose. Pass " +
+            "expectedHash from read_document to refuse the edit if the document has changed.",
           inputSchema: zodToJsonSchema(EditDocumentSchema) as any,
         },
+        {
+          name: "edit_section",
+          description:
+            "Edit a section of a markdown document addressed by heading anchor (e.g. '#linux') " +
+            "or heading path (e.g. 'Installation > Linux'), without quoting the old text. " +
+            "Operations: replace (everything under the heading, including subsections), " +
+            "insert_before (before the heading), insert_after (after the whole section), " +
+            "append (end of the section's own text, before its subsections) and delete. " +
+            "Returns a git-style diff; set dryRun to preview without writing.",
+          inputSchema: zodToJsonSchema(EditSectionSchema) as any,
+        },
+        {
+          name: "apply_patch",
+          description:
+            "Apply a unified diff (such as the diffs edit_document returns, or git diff " +
+            "output) to one or more documents, including new and deleted files. Hunks are " +
+            "located even if the lines have moved, trailing whitespace is ignored, and up to " +
+            "'fuzz' context lines at each end of a hunk may differ. If any hunk fails, nothing " +
+            "is written and each failed hunk is reported with the lines it expected and the " +
+            "lines found. Set dryRun to preview.",
+          inputSchema: zodToJsonSchema(ApplyPatchSchema) as any,
+        },
+        {
+          name: "replace_across_documents",
+          description:
+            "Find and replace text in every document matching a path, folder or glob. The " +
+            "pattern is literal unless regex is set, in which case the replacement can use " +
+            "capture groups ($1, $<name>). Set codeBlocks to 'skip' to leave code blocks alone " +
+            "or 'only' to change nothing but code blocks. Returns a combined diff and does not " +
+            "write files unless dryRun is false.",
+          inputSchema: zodToJsonSchema(ReplaceAcrossDocumentsSchema) as any,
+        },
         {
           name: "list_documents",
           description:
@@ -232,6 +350,36 @@ async function main() {
             "Returns the relative paths to matching documents.",
           inputSchema: zodToJsonSchema(SearchDocumentsSchema) as any,
         },
+        {
+          name: "delete_document",
+          description:
+            "Delete a document. It is moved to the trash (.mcp-docs/trash) with a record of " +
+            "where it came from, unless permanent is set. The response warns about links in " +
+            "other documents and navigation.json entries that will break.",
+          inputSchema: zodToJsonSchema(DeleteDocumentSchema) as any,
+        },
+        {
+          name: "list_trash",
+          description:
+            "List deleted documents in the trash with their trash ids, original paths and " +
+            "deletion times.",
+          inputSchema: zodToJsonSchema(ListTrashSchema) as any,
+        },
+        {
+          name: "restore_document",
+          description:
+            "Restore a document or folder from the trash by trash id or original path, to its original " +
+            "location or to destinationPath. Refuses to replace an existing document unless " +
+            "overwrite is set.",
+          inputSchema: zodToJsonSchema(RestoreDocumentSchema) as any,
+        },
+        {
+          name: "empty_trash",
+          description:
+            "Permanently delete the documents in the trash, optionally only those deleted " +
+            "more than olderThanDays days ago.",
+          inputSchema: zodToJsonSchema(EmptyTrashSchema) as any,
+        },
         {
           name: "generate_documentation_navigation",
           description:
@@ -258,38 +406,182 @@ async function main() {
         {
           name: "move_document",
           description:
-            "Move a document from one location to another. Optionally updates references to the " +
-            "document in other files.",
+            "Move a document from one location to another. Optionally updates links to the " +
+            "document in other files, resolving each link relative to the file that contains " +
+            "it and keeping anchors and query strings. Relative links and images in the moved document are " +
+            "rewritten for its new folder; set moveAssets to also move images and attachments " +
+            "that only this document uses. Pass expectedHash to refuse the move if the " +
+            "document has changed since it was read. Set dryRun to preview the diff of every " +
+            "document that would change.",
           inputSchema: zodToJsonSchema(MoveDocumentSchema) as any,
         },
+        {
+          name: "copy_document",
+          description:
+            "Copy a document to a new path, e.g. to start a new guide from an existing one. " +
+            "Optionally sets a new title (frontmatter and first heading). Resets the " +
+            "resetFields frontmatter fields (default date, status and order): date becomes " +
+            "today, status becomes draft and others are removed. Relative links are rewritten " +
+            "to resolve from the new location. Refuses to replace an existing document unless " +
+            "overwrite is set.",
+          inputSchema: zodToJsonSchema(CopyDocumentSchema) as any,
+        },
         {
           name: "rename_document",
           description:
             "Rename a document while preserving its location and content. Optionally updates " +
-            "references to the document in other files.",
+            "links to the document in other files, including wiki-links by title. Pass " +
+            "expectedHash to refuse the rename if the document has changed since it was read. " +
+            "Set dryRun to preview the diff of every document that would change.",
           inputSchema: zodToJsonSchema(RenameDocumentSchema) as any,
         },
+        {
+          name: "move_folder",
+          description:
+            "Move a folder and everything in it. In one pass, relative links in the moved " +
+            "documents and links from other documents into the folder are rewritten, and " +
+            "navigation.json entries are updated. Reports every file moved and updated.",
+          inputSchema: zodToJsonSchema(MoveFolderSchema) as any,
+        },
+        {
+          name: "rename_folder",
+          description:
+            "Rename a folder in place, rewriting links and navigation.json entries like " +
+            "move_folder.",
+          inputSchema: zodToJsonSchema(RenameFolderSchema) as any,
+        },
+        {
+          name: "delete_folder",
+          description:
+            "Delete a folder and everything in it. It is moved to the trash unless permanent " +
+            "is set (restore it with restore_document). Warns about links from other " +
+            "documents and navigation.json entries that will break.",
+          inputSchema: zodToJsonSchema(DeleteFolderSchema) as any,
+        },
+        {
+          name: "export_redirects",
+          description:
+            "Export the redirects recorded in redirects.json, which maps the old path of every " +
+            "document moved or renamed (including folder moves) to its current path, with " +
+            "chains collapsed. Formats: netlify (_redirects), nginx (map block) and mkdocs " +
+            "(redirects plugin YAML). Netlify and nginx use published URLs under baseUrl. " +
+            "Optionally writes the result to outputPath.",
+          inputSchema: zodToJsonSchema(ExportRedirectsSchema) as any,
+        },
         {
           name: "update_documentation_navigation_order",
           description:
             "Update the navigation order of a document by modifying its frontmatter.",
           inputSchema: zodToJsonSchema(UpdateNavigationOrderSchema) as any,
         },
+        {
+          name: "update_frontmatter",
+          description:
+            "Set, unset, append to or remove from frontmatter fields in a document, folder or " +
+            "glob of documents (e.g. 'guides/**/*.md'). Keys may use dots for nested fields. " +
+            "The document body is left untouched. Use dryRun to preview per-file diffs.",
+          inputSchema: zodToJsonSchema(UpdateFrontmatterSchema) as any,
+        },
+        {
+          name: "migrate_frontmatter",
+          description:
+            "Migrate frontmatter conventions across documents with an ordered list of rules: " +
+            "rename a key, map old values to new ones, coerce a field to another type, or delete " +
+            "a key. Each rule can be limited by a glob. Reports how many files each rule touched; " +
+            "use dryRun to preview the diffs.",
+          inputSchema: zodToJsonSchema(MigrateFrontmatterSchema) as any,
+        },
         {
           name: "create_documentation_section",
           description: "Create a new navigation section with an index.md file.",
           inputSchema: zodToJsonSchema(CreateSectionSchema) as any,
         },
+        {
+          name: "batch_operations",
+          description:
+            "Apply an ordered list of changes as one unit. Each operation names a tool " +
+            "(write_document, edit_document, edit_section, replace_across_documents, " +
+            "delete_document, create_documentation_folder, move_document, copy_document, " +
+            "rename_document, move_folder, rename_folder, delete_folder, " +
+            "update_documentation_navigation_order, update_frontmatter, migrate_frontmatter, " +
+            "create_documentation_section or convert_links) plus that tool's arguments. All " +
+            "operations are validated before any is applied, and if one fails every file " +
+            "the batch touched is restored. Returns the result of each operation.",
+          inputSchema: zodToJsonSchema(BatchOperationsSchema) as any,
+        },
+        {
+          name: "list_changes",
+          description:
+            "List recent changes made through the document tools, newest first. Every " +
+            "change is journaled in .mcp-docs/journal with the content of each file before " +
+            "and after, so it can be undone. Checkpoints appear in the list too.",
+          inputSchema: zodToJsonSchema(ListChangesSchema) as any,
+        },
+        {
+          name: "create_checkpoint",
+          description:
+            "Add a named checkpoint to the change journal, so everything done after it can " +
+            "be undone together with undo_change.",
+          inputSchema: zodToJsonSchema(CreateCheckpointSchema) as any,
+        },
+        {
+          name: "undo_change",
+          description:
+            "Revert a change from the journal by id, or every change after a checkpoint " +
+            "(by name or id). Without either, undoes the latest change. Fails if a file was " +
+            "changed again since, unless force is set.",
+          inputSchema: zodToJsonSchema(UndoChangeSchema) as any,
+        },
+        {
+          name: "redo_change",
+          description:
+            "Reapply an undone change by id, or every undone change after a checkpoint. " +
+            "Without either, redoes the most recently undone change. Fails if a file was " +
+            "changed since the undo, unless force is set.",
+          inputSchema: zodToJsonSchema(RedoChangeSchema) as any,
+        },
         // New tools for Phase 3
         {
           name: "validate_documentation_links",
           description:
-            "Check for broken internal links in documentation files.",
+            "Check for broken internal links in documentation files, including images, " +
+            "HTML src/href attributes, reference-style links, wiki-links ([[Page]], [[Page#Heading|alias]]) and " +
+            "#anchors.",
           inputSchema: zodToJsonSchema(ValidateLinksSchema) as any,
         },
+        {
+          name: "get_backlinks",
+          description:
+            "Find every link to a document, or to one of its headings with an anchor " +
+            "(e.g. 'guides/setup.md#install'), before editing or deleting it. Covers markdown " +
+            "links, images, wiki-links and navigation.json entries. Each link is returned with " +
+            "its file, line, link text and the surrounding text.",
+          inputSchema: zodToJsonSchema(GetBacklinksSchema) as any,
+        },
+        {
+          name: "convert_links",
+          description:
+            "Convert links in a document, folder or glob of documents between wiki-links " +
+            "([[Page#Heading|alias]]) and standard markdown links ([alias](page.md#heading)). " +
+            "Wiki-links are resolved by path, file name or frontmatter title. Links that " +
+            "cannot be converted are reported and left unchanged. Returns the diffs; use " +
+            "dryRun to preview.",
+          inputSchema: zodToJsonSchema(ConvertLinksSchema) as any,
+        },
+        {
+          name: "find_unused_assets",
+          description:
+            "List asset files (images, attachments and other non-markdown files) in the docs " +
+            "directory that no document links to or embeds, with their sizes.",
+          inputSchema: zodToJsonSchema(FindUnusedAssetsSchema) as any,
+        },
         {
           name: "validate_documentation_metadata",
-          description: "Ensure all documents have required metadata fields.",
+          description:
+            "Ensure all documents have required metadata fields. If the docs root contains a " +
+            "frontmatter.schema.json file, also checks field types, allowed values and date formats. " +
+            "With fix enabled, fills missing title, description and status fields from the first " +
+            "heading, first paragraph and defaultStatus; returns a preview diff unless dryRun is false.",
           inputSchema: zodToJsonSchema(ValidateMetadataSchema) as any,
         },
         // New tool for LLM-optimized documentation
@@ -315,7 +607,22 @@ async function main() {
               `Invalid arguments for read_document: ${parsed.error}`
             );
           }
-          return await documentHandler.readDocument(parsed.data.path);
+          return await documentHandler.readDocument(parsed.data.path, {
+            section: parsed.data.section,
+            offset: parsed.data.offset,
+            limit: parsed.data.limit,
+            maxTokens: parsed.data.maxTokens,
+          });
+        }
+
+        case "get_document_outline": {
+          const parsed = GetDocumentOutlineSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for get_document_outline: ${parsed.error}`
+            );
+          }
+          return await documentHandler.getDocumentOutline(parsed.data.path);
         }
 
         case "write_document": {
@@ -328,7 +635,8 @@ async function main() {
           return await documentHandler.writeDocument(
             parsed.data.path,
             parsed.data.content,
-            parsed.data.createDirectories
+            parsed.data.createDirectories,
+            parsed.data.expectedHash
           );
         }
 
@@ -342,10 +650,61 @@ async function main() {
           return await documentHandler.editDocument(
             parsed.data.path,
             parsed.data.edits,
+            parsed.data.dryRun,
+            parsed.data.expectedHash
+          );
+        }
+
+        case "edit_section": {
+          const parsed = EditSectionSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for edit_section: ${parsed.error}`
+            );
+          }
+          return await documentHandler.editSection(
+            parsed.data.path,
+            parsed.data.section,
+            parsed.data.operation,
+            parsed.data.content,
             parsed.data.dryRun
           );
         }
 
+        case "apply_patch": {
+          const parsed = ApplyPatchSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for apply_patch: ${parsed.error}`
+            );
+          }
+          return await documentHandler.applyPatch(
+            parsed.data.patch,
+            parsed.data.dryRun,
+            parsed.data.fuzz
+          );
+        }
+
+        case "replace_across_documents": {
+          const parsed = ReplaceAcrossDocumentsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for replace_across_documents: ${parsed.error}`
+            );
+          }
+          return await documentHandler.replaceAcrossDocuments(
+            parsed.data.pattern,
+            parsed.data.replacement,
+            {
+              target: parsed.data.path,
+              regex: parsed.data.regex,
+              caseSensitive: parsed.data.caseSensitive,
+              codeBlocks: parsed.data.codeBlocks,
+              dryRun: parsed.data.dryRun,
+            }
+          );
+        }
+
         case "list_documents": {
           const parsed = ListDocumentsSchema.safeParse(args);
           if (!parsed.success) {
@@ -372,6 +731,47 @@ async function main() {
           );
         }
 
+        case "delete_document": {
+          const parsed = DeleteDocumentSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for delete_document: ${parsed.error}`
+            );
+          }
+          return await documentHandler.deleteDocument(
+            parsed.data.path,
+            parsed.data.permanent
+          );
+        }
+
+        case "list_trash": {
+          return await documentHandler.listTrash();
+        }
+
+        case "restore_document": {
+          const parsed = RestoreDocumentSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for restore_document: ${parsed.error}`
+            );
+          }
+          return await documentHandler.restoreDocument(
+            parsed.data.id,
+            parsed.data.destinationPath,
+            parsed.data.overwrite
+          );
+        }
+
+        case "empty_trash": {
+          const parsed = EmptyTrashSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for empty_trash: ${parsed.error}`
+            );
+          }
+          return await documentHandler.emptyTrash(parsed.data.olderThanDays);
+        }
+
         case "generate_documentation_navigation": {
           const parsed = ListDocumentsSchema.safeParse(args);
           if (!parsed.success) {
@@ -411,7 +811,7 @@ async function main() {
           );
         }
 
-        case "move_documentation_document": {
+        case "move_document": {
           const parsed = MoveDocumentSchema.safeParse(args);
           if (!parsed.success) {
             throw new Error(
@@ -421,11 +821,32 @@ async function main() {
           return await documentHandler.moveDocument(
             parsed.data.sourcePath,
             parsed.data.destinationPath,
-            parsed.data.updateReferences
+            parsed.data.updateReferences,
+            parsed.data.moveAssets,
+            parsed.data.expectedHash,
+            parsed.data.dryRun
           );
         }
 
-        case "rename_documentation_document": {
+        case "copy_document": {
+          const parsed = CopyDocumentSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for copy_document: ${parsed.error}`
+            );
+          }
+          return await documentHandler.copyDocument(
+            parsed.data.sourcePath,
+            parsed.data.destinationPath,
+            {
+              title: parsed.data.title,
+              resetFields: parsed.data.resetFields,
+              overwrite: parsed.data.overwrite,
+            }
+          );
+        }
+
+        case "rename_document": {
           const parsed = RenameDocumentSchema.safeParse(args);
           if (!parsed.success) {
             throw new Error(
@@ -433,12 +854,69 @@ async function main() {
             );
           }
           return await documentHandler.renameDocument(
+            parsed.data.path,
+            parsed.data.newName,
+            parsed.data.updateReferences,
+            parsed.data.expectedHash,
+            parsed.data.dryRun
+          );
+        }
+
+        case "move_folder": {
+          const parsed = MoveFolderSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for move_folder: ${parsed.error}`
+            );
+          }
+          return await documentHandler.moveFolder(
+            parsed.data.sourcePath,
+            parsed.data.destinationPath,
+            parsed.data.updateReferences
+          );
+        }
+
+        case "rename_folder": {
+          const parsed = RenameFolderSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for rename_folder: ${parsed.error}`
+            );
+          }
+          return await documentHandler.renameFolder(
             parsed.data.path,
             parsed.data.newName,
             parsed.data.updateReferences
           );
         }
 
+        case "delete_folder": {
+          const parsed = DeleteFolderSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for delete_folder: ${parsed.error}`
+            );
+          }
+          return await documentHandler.deleteFolder(
+            parsed.data.path,
+            parsed.data.permanent
+          );
+        }
+
+        case "export_redirects": {
+          const parsed = ExportRedirectsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for export_redirects: ${parsed.error}`
+            );
+          }
+          return await documentHandler.exportRedirects(
+            parsed.data.format,
+            parsed.data.baseUrl,
+            parsed.data.outputPath
+          );
+        }
+
         case "update_documentation_navigation_order": {
           const parsed = UpdateNavigationOrderSchema.safeParse(args);
           if (!parsed.success) {
@@ -452,7 +930,35 @@ async function main() {
           );
         }
 
-        case "create_section": {
+        case "update_frontmatter": {
+          const parsed = UpdateFrontmatterSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for update_frontmatter: ${parsed.error}`
+            );
+          }
+          return await documentHandler.updateDocumentFrontmatter(
+            parsed.data.path,
+            parsed.data.operations,
+            parsed.data.dryRun
+          );
+        }
+
+        case "migrate_frontmatter": {
+          const parsed = MigrateFrontmatterSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for migrate_frontmatter: ${parsed.error}`
+            );
+          }
+          return await documentHandler.migrateFrontmatter(
+            parsed.data.rules,
+            parsed.data.path,
+            parsed.data.dryRun
+          );
+        }
+
+        case "create_documentation_section": {
           const parsed = CreateSectionSchema.safeParse(args);
           if (!parsed.success) {
             throw new Error(
@@ -466,6 +972,56 @@ async function main() {
           );
         }
 
+        case "batch_operations": {
+          const parsed = BatchOperationsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for batch_operations: ${parsed.error}`
+            );
+          }
+          return await documentHandler.batchOperations(parsed.data.operations);
+        }
+
+        case "list_changes": {
+          const parsed = ListChangesSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for list_changes: ${parsed.error}`
+            );
+          }
+          return await documentHandler.listChanges(parsed.data.limit);
+        }
+
+        case "create_checkpoint": {
+          const parsed = CreateCheckpointSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for create_checkpoint: ${parsed.error}`
+            );
+          }
+          return await documentHandler.createCheckpoint(parsed.data.name);
+        }
+
+        case "undo_change": {
+          const parsed = UndoChangeSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for undo_change: ${parsed.error}`
+            );
+          }
+          return await documentHandler.undoChange(parsed.data);
+        }
+
+        case "redo_change": {
+          const parsed = RedoChangeSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for redo_change: ${parsed.error}`
+            );
+          }
+          return await documentHandler.redoChange(parsed.data);
+        }
+
         // New tools for Phase 3
         case "validate_documentation_links": {
           const parsed = ValidateLinksSchema.safeParse(args);
@@ -480,6 +1036,40 @@ async function main() {
           );
         }
 
+        case "get_backlinks": {
+          const parsed = GetBacklinksSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for get_backlinks: ${parsed.error}`
+            );
+          }
+          return await documentHandler.getBacklinks(parsed.data.path);
+        }
+
+        case "convert_links": {
+          const parsed = ConvertLinksSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for convert_links: ${parsed.error}`
+            );
+          }
+          return await documentHandler.convertLinks(
+            parsed.data.to,
+            parsed.data.path,
+            parsed.data.dryRun
+          );
+        }
+
+        case "find_unused_assets": {
+          const parsed = FindUnusedAssetsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(
+              `Invalid arguments for find_unused_assets: ${parsed.error}`
+            );
+          }
+          return await documentHandler.findUnusedAssets(parsed.data.basePath);
+        }
+
         case "validate_documentation_metadata": {
           const parsed = ValidateMetadataSchema.safeParse(args);
           if (!parsed.success) {
@@ -487,6 +1077,13 @@ async function main() {
               `Invalid arguments for validate_metadata: ${parsed.error}`
             );
           }
+          if (parsed.data.fix) {
+            return await documentHandler.fixMetadata(parsed.data.basePath, {
+              requiredFields: parsed.data.requiredFields,
+              defaultStatus: parsed.data.defaultStatus,
+              dryRun: parsed.data.dryRun,
+            });
+          }
           return await documentHandler.validateMetadata(
             parsed.data.basePath,
             parsed.data.requiredFields
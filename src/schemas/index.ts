@@ -1 +1,2 @@
 export * from "./tools.js";
+export * from "./metadata.js";
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+// Schema for the frontmatter schema file kept in the docs root
+export const MetadataFieldRuleSchema = z.object({
+  type: z
+    .enum(["string", "number", "integer", "boolean", "date", "array", "object"])
+    .optional(),
+  enum: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  format: z.enum(["date", "date-time"]).optional(),
+  items: z.enum(["string", "number", "boolean"]).optional(),
+});
+
+export const MetadataFolderRuleSchema = z.object({
+  required: z.array(z.string()).default([]),
+  fields: z.record(MetadataFieldRuleSchema).default({}),
+});
+
+export const MetadataSchemaFileSchema = z.object({
+  required: z.array(z.string()).optional(),
+  fields: z.record(MetadataFieldRuleSchema).default({}),
+  folders: z.record(MetadataFolderRuleSchema).default({}),
+});
+
+export type MetadataFieldRule = z.infer<typeof MetadataFieldRuleSchema>;
+export type MetadataSchema = z.infer<typeof MetadataSchemaFileSchema>;
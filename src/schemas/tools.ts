@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isSafeFieldPath } from "../utils/frontmatter.js";
 
 // Base schema for tool inputs
 export const ToolInputSchema = z.object({
@@ -8,6 +9,14 @@ export const ToolInputSchema = z.object({
 // Documentation schemas
 export const ReadDocumentSchema = ToolInputSchema.extend({
   path: z.string(),
+  section: z.string().optional(),
+  offset: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).optional(),
+  maxTokens: z.number().int().min(1).optional(),
+});
+
+export const GetDocumentOutlineSchema = ToolInputSchema.extend({
+  path: z.string().default(""),
 });
 
 export const ListDocumentsSchema = ToolInputSchema.extend({
@@ -33,6 +42,7 @@ export const WriteDocumentSchema = ToolInputSchema.extend({
   path: z.string(),
   content: z.string(),
   createDirectories: z.boolean().default(true),
+  expectedHash: z.string().optional(),
 });
 
 export const EditDocumentSchema = ToolInputSchema.extend({
@@ -41,13 +51,60 @@ export const EditDocumentSchema = ToolInputSchema.extend({
     z.object({
       oldText: z.string(),
       newText: z.string(),
+      occurrence: z.number().int().min(1).optional(),
+      replaceAll: z.boolean().optional(),
+      startLine: z.number().int().min(1).optional(),
     })
   ),
   dryRun: z.boolean().default(false),
+  expectedHash: z.string().optional(),
+});
+
+export const EditSectionSchema = ToolInputSchema.extend({
+  path: z.string(),
+  section: z.string(),
+  operation: z.enum([
+    "replace",
+    "insert_before",
+    "insert_after",
+    "append",
+    "delete",
+  ]),
+  content: z.string().default(""),
+  dryRun: z.boolean().default(false),
+});
+
+export const ApplyPatchSchema = ToolInputSchema.extend({
+  patch: z.string().min(1),
+  dryRun: z.boolean().default(false),
+  fuzz: z.number().int().min(0).max(3).default(2),
+});
+
+export const ReplaceAcrossDocumentsSchema = ToolInputSchema.extend({
+  pattern: z.string().min(1),
+  replacement: z.string(),
+  path: z.string().default("**/*.md"),
+  regex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(true),
+  codeBlocks: z.enum(["include", "skip", "only"]).default("include"),
+  dryRun: z.boolean().default(true),
 });
 
 export const DeleteDocumentSchema = ToolInputSchema.extend({
   path: z.string(),
+  permanent: z.boolean().default(false),
+});
+
+export const ListTrashSchema = ToolInputSchema.extend({});
+
+export const RestoreDocumentSchema = ToolInputSchema.extend({
+  id: z.string(),
+  destinationPath: z.string().optional(),
+  overwrite: z.boolean().default(false),
+});
+
+export const EmptyTrashSchema = ToolInputSchema.extend({
+  olderThanDays: z.number().min(0).optional(),
 });
 
 export const SearchDocumentsSchema = ToolInputSchema.extend({
@@ -70,12 +127,48 @@ export const MoveDocumentSchema = ToolInputSchema.extend({
   sourcePath: z.string(),
   destinationPath: z.string(),
   updateReferences: z.boolean().default(true),
+  moveAssets: z.boolean().default(false),
+  expectedHash: z.string().optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export const CopyDocumentSchema = ToolInputSchema.extend({
+  sourcePath: z.string(),
+  destinationPath: z.string(),
+  title: z.string().optional(),
+  resetFields: z.array(z.string()).default(["date", "status", "order"]),
+  overwrite: z.boolean().default(false),
 });
 
 export const RenameDocumentSchema = ToolInputSchema.extend({
   path: z.string(),
   newName: z.string(),
   updateReferences: z.boolean().default(true),
+  expectedHash: z.string().optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export const MoveFolderSchema = ToolInputSchema.extend({
+  sourcePath: z.string(),
+  destinationPath: z.string(),
+  updateReferences: z.boolean().default(true),
+});
+
+export const RenameFolderSchema = ToolInputSchema.extend({
+  path: z.string(),
+  newName: z.string(),
+  updateReferences: z.boolean().default(true),
+});
+
+export const DeleteFolderSchema = ToolInputSchema.extend({
+  path: z.string(),
+  permanent: z.boolean().default(false),
+});
+
+export const ExportRedirectsSchema = ToolInputSchema.extend({
+  format: z.enum(["netlify", "nginx", "mkdocs"]),
+  baseUrl: z.string().default("/"),
+  outputPath: z.string().optional(),
 });
 
 export const UpdateNavigationOrderSchema = ToolInputSchema.extend({
@@ -83,6 +176,64 @@ export const UpdateNavigationOrderSchema = ToolInputSchema.extend({
   order: z.number(),
 });
 
+// Dotted frontmatter key; segments that reach a prototype are refused
+export const FrontmatterKeySchema = z.string().refine(isSafeFieldPath, {
+  message: "Key segments __proto__, constructor and prototype are not allowed",
+});
+
+export const FrontmatterOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("set"), key: FrontmatterKeySchema, value: z.any() }),
+  z.object({ op: z.literal("unset"), key: FrontmatterKeySchema }),
+  z.object({
+    op: z.literal("append"),
+    key: FrontmatterKeySchema,
+    value: z.any(),
+  }),
+  z.object({
+    op: z.literal("remove"),
+    key: FrontmatterKeySchema,
+    value: z.any(),
+  }),
+]);
+
+export const UpdateFrontmatterSchema = ToolInputSchema.extend({
+  path: z.string(),
+  operations: z.array(FrontmatterOperationSchema).min(1),
+  dryRun: z.boolean().default(false),
+});
+
+export const FrontmatterMigrationRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("rename"),
+    from: FrontmatterKeySchema,
+    to: FrontmatterKeySchema,
+    glob: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("map_values"),
+    key: FrontmatterKeySchema,
+    values: z.record(z.any()),
+    glob: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("coerce"),
+    key: FrontmatterKeySchema,
+    to: z.enum(["string", "number", "boolean", "array", "date", "date-time"]),
+    glob: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("delete"),
+    key: FrontmatterKeySchema,
+    glob: z.string().optional(),
+  }),
+]);
+
+export const MigrateFrontmatterSchema = ToolInputSchema.extend({
+  path: z.string().optional().default("**/*.md"),
+  rules: z.array(FrontmatterMigrationRuleSchema).min(1),
+  dryRun: z.boolean().default(false),
+});
+
 export const CreateSectionSchema = ToolInputSchema.extend({
   title: z.string(),
   path: z.string(),
@@ -95,9 +246,26 @@ export const ValidateLinksSchema = ToolInputSchema.extend({
   recursive: z.boolean().default(true),
 });
 
+export const GetBacklinksSchema = ToolInputSchema.extend({
+  path: z.string(),
+});
+
+export const ConvertLinksSchema = ToolInputSchema.extend({
+  path: z.string().default("**/*.md"),
+  to: z.enum(["markdown", "wiki"]),
+  dryRun: z.boolean().default(false),
+});
+
+export const FindUnusedAssetsSchema = ToolInputSchema.extend({
+  basePath: z.string().optional(),
+});
+
 export const ValidateMetadataSchema = ToolInputSchema.extend({
   basePath: z.string().optional().default(""),
   requiredFields: z.array(z.string()).optional(),
+  fix: z.boolean().default(false),
+  defaultStatus: z.string().optional().default("draft"),
+  dryRun: z.boolean().default(true),
 });
 
 // New schema for consolidated documentation generation
@@ -111,3 +279,53 @@ export const ConsolidateDocumentationSchema = ToolInputSchema.extend({
   priorityFiles: z.array(z.string()).optional(),
   excludeFiles: z.array(z.string()).optional(),
 });
+
+// Change journal schemas
+export const ListChangesSchema = ToolInputSchema.extend({
+  limit: z.number().int().min(1).default(20),
+});
+
+export const CreateCheckpointSchema = ToolInputSchema.extend({
+  name: z.string().min(1),
+});
+
+export const UndoChangeSchema = ToolInputSchema.extend({
+  id: z.number().int().optional(),
+  checkpoint: z.string().optional(),
+  force: z.boolean().default(false),
+});
+
+export const RedoChangeSchema = UndoChangeSchema;
+
+// Batch operations reuse the schema of the tool each operation runs
+export const BatchOperationSchema = z.discriminatedUnion("tool", [
+  WriteDocumentSchema.extend({ tool: z.literal("write_document") }),
+  EditDocumentSchema.extend({ tool: z.literal("edit_document") }),
+  EditSectionSchema.extend({ tool: z.literal("edit_section") }),
+  ReplaceAcrossDocumentsSchema.extend({
+    tool: z.literal("replace_across_documents"),
+  }),
+  DeleteDocumentSchema.extend({ tool: z.literal("delete_document") }),
+  CreateFolderSchema.extend({ tool: z.literal("create_documentation_folder") }),
+  MoveDocumentSchema.extend({ tool: z.literal("move_document") }),
+  CopyDocumentSchema.extend({ tool: z.literal("copy_document") }),
+  RenameDocumentSchema.extend({ tool: z.literal("rename_document") }),
+  MoveFolderSchema.extend({ tool: z.literal("move_folder") }),
+  RenameFolderSchema.extend({ tool: z.literal("rename_folder") }),
+  DeleteFolderSchema.extend({ tool: z.literal("delete_folder") }),
+  UpdateNavigationOrderSchema.extend({
+    tool: z.literal("update_documentation_navigation_order"),
+  }),
+  UpdateFrontmatterSchema.extend({ tool: z.literal("update_frontmatter") }),
+  MigrateFrontmatterSchema.extend({ tool: z.literal("migrate_frontmatter") }),
+  CreateSectionSchema.extend({
+    tool: z.literal("create_documentation_section"),
+  }),
+  ConvertLinksSchema.extend({ tool: z.literal("convert_links") }),
+]);
+
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+
+export const BatchOperationsSchema = ToolInputSchema.extend({
+  operations: z.array(BatchOperationSchema).min(1),
+});
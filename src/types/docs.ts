@@ -6,12 +6,41 @@ export interface DocumentMetadata {
   order?: number;
   description?: string;
   author?: string;
-  date?: Date;
+  date?: string | Date;
   tags?: string[];
   status?: string;
   [key: string]: any;
 }
 
+/**
+ * Change to apply to a frontmatter field. Keys may use dots for nested fields.
+ */
+export type FrontmatterOperation =
+  | { op: "set"; key: string; value?: unknown }
+  | { op: "unset"; key: string }
+  | { op: "append"; key: string; value?: unknown }
+  | { op: "remove"; key: string; value?: unknown };
+
+/**
+ * Declarative rule for migrating frontmatter conventions across documents.
+ * Each rule may be limited to documents matching its own glob.
+ */
+export type FrontmatterMigrationRule =
+  | { type: "rename"; from: string; to: string; glob?: string }
+  | {
+      type: "map_values";
+      key: string;
+      values: Record<string, unknown>;
+      glob?: string;
+    }
+  | {
+      type: "coerce";
+      key: string;
+      to: "string" | "number" | "boolean" | "array" | "date" | "date-time";
+      glob?: string;
+    }
+  | { type: "delete"; key: string; glob?: string };
+
 /**
  * Entry for a documentation file
  */
@@ -33,6 +62,44 @@ export interface TreeEntry {
   error?: string;
 }
 
+/**
+ * Section in a document outline
+ */
+export interface OutlineEntry {
+  level: number;
+  text: string;
+  slug: string;
+  startLine: number;
+  endLine: number;
+  wordCount: number;
+  tokenEstimate: number;
+  children: OutlineEntry[];
+}
+
+/**
+ * Text replacement applied by edit_document
+ */
+export interface DocumentEdit {
+  oldText: string;
+  newText: string;
+  /** Which match to replace (1-based) when oldText appears more than once */
+  occurrence?: number;
+  /** Replace every match */
+  replaceAll?: boolean;
+  /** Replace the match closest to this line */
+  startLine?: number;
+}
+
+/**
+ * Heading-targeted edit applied by edit_section
+ */
+export type SectionEditOperation =
+  | "replace"
+  | "insert_before"
+  | "insert_after"
+  | "append"
+  | "delete";
+
 /**
  * Navigation item for documentation
  */
@@ -53,15 +120,38 @@ export interface NavigationSection {
   order: number;
 }
 
+/**
+ * Frontmatter field that does not satisfy the metadata schema
+ */
+export interface MetadataViolation {
+  field: string;
+  kind: "missing" | "type" | "enum" | "format";
+  expected: string;
+  actual: string;
+  message: string;
+}
+
 /**
  * Health issue for documentation
  */
 export interface HealthIssue {
   path: string;
-  type: "missing_metadata" | "broken_link" | "orphaned" | "missing_reference";
+  type:
+    | "missing_metadata"
+    | "invalid_metadata_type"
+    | "invalid_metadata_enum"
+    | "invalid_metadata_format"
+    | "broken_link"
+    | "broken_anchor"
+    | "orphaned"
+    | "missing_reference";
   severity: "error" | "warning" | "info";
   message: string;
   details?: any;
+  line?: number;
+  field?: string;
+  expected?: string;
+  actual?: string;
 }
 
 /**
@@ -73,8 +163,71 @@ export interface HealthCheckResult {
   issues: HealthIssue[];
   metadataCompleteness: number;
   brokenLinks: number;
+  brokenAnchors: number;
   orphanedDocuments: number;
   missingReferences: number;
   documentsByStatus: Record<string, number>;
   documentsByTag: Record<string, number>;
 }
+
+/**
+ * Content of one file before and after a journaled change. Content is null
+ * when the file did not exist, and base64 encoded for binary files.
+ */
+export interface JournalFileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+  encoding: "utf-8" | "base64";
+}
+
+/**
+ * One change made through the document tools, or a named checkpoint
+ */
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  tool: string;
+  summary: string;
+  files: JournalFileChange[];
+  createdDirectories: string[];
+  undoneAt?: string;
+}
+
+/**
+ * Entry in a saved navigation.json file
+ */
+export interface NavigationFileEntry {
+  title: string;
+  path: string;
+  order: number;
+  children: NavigationFileEntry[];
+}
+
+/**
+ * Document or folder moved to the trash by delete_document or delete_folder
+ */
+export interface TrashEntry {
+  id: string;
+  originalPath: string;
+  deletedAt: string;
+  title?: string;
+  /** The entry is a whole folder rather than one document */
+  isFolder?: boolean;
+}
+
+/**
+ * A link to a document found by get_backlinks
+ */
+export interface Backlink {
+  /** Linking document, relative to the docs root */
+  file: string;
+  line: number;
+  kind: "inline" | "reference" | "autolink" | "wiki" | "html";
+  /** Link text, alt text or wiki-link alias */
+  text: string;
+  url: string;
+  anchor?: string;
+  /** The source line around the link */
+  context: string;
+}
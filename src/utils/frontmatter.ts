@@ -0,0 +1,759 @@
+/**
+ * Frontmatter utilities for the MCP Docs Service
+ *
+ * Parses the frontmatter block of a markdown document into typed metadata
+ * and writes changes back without disturbing the parts of the block that
+ * were not changed (key order, comments, quoting). Supports YAML (`---`),
+ * TOML (`+++`) and JSON (leading `{ ... }` object) frontmatter.
+ */
+
+import { isDeepStrictEqual } from "util";
+import YAML from "yaml";
+import * as TOML from "smol-toml";
+import {
+  DocumentMetadata,
+  FrontmatterOperation,
+  FrontmatterMigrationRule,
+} from "../types/docs.js";
+
+const YAML_FRONTMATTER_REGEX =
+  /^---[ \t]*(\r?\n)(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const TOML_FRONTMATTER_REGEX =
+  /^\+\+\+[ \t]*(\r?\n)(?:([\s\S]*?)\r?\n)?\+\+\+[ \t]*(?:\r?\n|$)/;
+
+// Never fold long values or pad flow collections when writing YAML back
+const YAML_OUTPUT_OPTIONS = { lineWidth: 0, flowCollectionPadding: false };
+
+// Key segments that would reach an object's prototype instead of a field
+const UNSAFE_FIELD_NAMES = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Frontmatter syntaxes recognized at the start of a document
+ */
+export type FrontmatterFormat = "yaml" | "toml" | "json";
+
+/**
+ * Result of parsing the frontmatter of a document
+ */
+export interface ParsedFrontmatter {
+  /** Parsed metadata, empty when the document has no (valid) frontmatter */
+  frontmatter: DocumentMetadata;
+  /** Document body without the frontmatter block */
+  content: string;
+  /** Syntax of the frontmatter block, or null when there is none */
+  format: FrontmatterFormat | null;
+  /** The frontmatter block exactly as it appears in the source */
+  raw: string;
+  /** Text between the frontmatter delimiters (the whole object for JSON) */
+  source: string;
+  /** Line ending used by the frontmatter block */
+  eol: string;
+  /** Parse errors, if the block could not be read */
+  errors: string[];
+}
+
+/**
+ * Parse frontmatter from markdown content
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const yamlMatch = content.match(YAML_FRONTMATTER_REGEX);
+  if (yamlMatch) {
+    const source = yamlMatch[2] ?? "";
+    const doc = YAML.parseDocument(source);
+    const errors = doc.errors.map((error) => error.message);
+    return createParsed(
+      content,
+      "yaml",
+      yamlMatch[0],
+      source,
+      yamlMatch[1],
+      errors,
+      errors.length === 0 ? doc.toJS() : null
+    );
+  }
+
+  const tomlMatch = content.match(TOML_FRONTMATTER_REGEX);
+  if (tomlMatch) {
+    const source = tomlMatch[2] ?? "";
+    try {
+      return createParsed(
+        content,
+        "toml",
+        tomlMatch[0],
+        source,
+        tomlMatch[1],
+        [],
+        normalizeTomlValue(TOML.parse(source))
+      );
+    } catch (error) {
+      return createParsed(content, "toml", tomlMatch[0], source, tomlMatch[1], [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+  }
+
+  const jsonBlock = matchJsonFrontmatter(content);
+  if (jsonBlock) {
+    const eol = jsonBlock.raw.endsWith("\r\n") ? "\r\n" : "\n";
+    try {
+      return createParsed(
+        content,
+        "json",
+        jsonBlock.raw,
+        jsonBlock.source,
+        eol,
+        [],
+        JSON.parse(jsonBlock.source)
+      );
+    } catch {
+      // A leading brace that is not valid JSON is ordinary content
+    }
+  }
+
+  return {
+    frontmatter: {},
+    content,
+    format: null,
+    raw: "",
+    source: "",
+    eol: "\n",
+    errors: [],
+  };
+}
+
+/**
+ * Serialize updated metadata back into a document, in the same format the
+ * document already uses.
+ *
+ * Keys that did not change keep their original formatting. Removed keys are
+ * deleted and new keys are appended after the existing ones.
+ */
+export function stringifyFrontmatter(
+  parsed: ParsedFrontmatter,
+  frontmatter: DocumentMetadata
+): string {
+  // Drop keys explicitly set to undefined so they count as removed
+  const data = Object.fromEntries(
+    Object.entries(frontmatter).filter(([, value]) => value !== undefined)
+  );
+
+  // Nothing changed: leave the block as written, even if it is invalid
+  if (isDeepStrictEqual(parsed.frontmatter, data)) {
+    return parsed.raw + parsed.content;
+  }
+
+  if (parsed.errors.length > 0) {
+    throw new Error(
+      `Cannot update invalid frontmatter: ${parsed.errors.join("; ")}`
+    );
+  }
+
+  let block: string;
+  switch (parsed.format) {
+    case "toml":
+      block = `+++\n${updateTomlSource(parsed, data)}+++\n`;
+      break;
+    case "json":
+      block = `${updateJsonSource(parsed, data)}\n`;
+      break;
+    case "yaml":
+      block = `---\n${updateYamlSource(parsed, data)}---\n`;
+      break;
+    default: {
+      const source = YAML.stringify(data, YAML_OUTPUT_OPTIONS);
+      const separator = parsed.content.startsWith("\n") ? "" : "\n";
+      return `---\n${source}---\n${separator}${parsed.content}`;
+    }
+  }
+
+  block = block.replace(/\n/g, parsed.eol);
+
+  // Keep the original ending if the file ended right after the block
+  const closedAtEnd = !/\r?\n$/.test(parsed.raw);
+  return (
+    (closedAtEnd ? block.slice(0, -parsed.eol.length) : block) + parsed.content
+  );
+}
+
+/**
+ * Apply a change to the frontmatter of a document and return the new content.
+ * The updater may mutate the metadata in place or return a replacement object.
+ */
+export function updateFrontmatter(
+  content: string,
+  updater: (frontmatter: DocumentMetadata) => DocumentMetadata | void
+): string {
+  const parsed = parseFrontmatter(content);
+  const draft = structuredClone(parsed.frontmatter);
+  const updated = updater(draft) ?? draft;
+  return stringifyFrontmatter(parsed, updated);
+}
+
+/**
+ * Whether a dotted field key is safe to walk: no segment may name an
+ * object's prototype
+ */
+export function isSafeFieldPath(key: string): boolean {
+  return key.split(".").every((name) => !UNSAFE_FIELD_NAMES.includes(name));
+}
+
+/**
+ * Split a dotted field key into its segments, rejecting unsafe ones
+ */
+function splitFieldPath(key: string): string[] {
+  if (!isSafeFieldPath(key)) {
+    throw new Error(`Invalid field name: ${key}`);
+  }
+  return key.split(".");
+}
+
+/**
+ * Apply set/unset/append/remove operations to metadata in place.
+ * Append and remove accept a single value or an array of values; append
+ * skips values the array already contains.
+ */
+export function applyFrontmatterOperations(
+  frontmatter: DocumentMetadata,
+  operations: FrontmatterOperation[]
+): DocumentMetadata {
+  for (const operation of operations) {
+    const keys = splitFieldPath(operation.key);
+    const field = keys.pop() as string;
+
+    if (operation.op === "unset") {
+      const parent = getParent(frontmatter, keys, false);
+      if (parent) {
+        delete parent[field];
+      }
+      continue;
+    }
+
+    const parent = getParent(frontmatter, keys, true) as Record<string, any>;
+
+    if (operation.op === "set") {
+      parent[field] = operation.value;
+      continue;
+    }
+
+    const values = Array.isArray(operation.value)
+      ? operation.value
+      : [operation.value];
+    const current = parent[field] ?? [];
+    if (!Array.isArray(current)) {
+      throw new Error(`Field ${operation.key} is not an array`);
+    }
+
+    parent[field] =
+      operation.op === "append"
+        ? [
+            ...current,
+            ...values.filter(
+              (value, index) =>
+                !current.some((item) => isDeepStrictEqual(item, value)) &&
+                values.findIndex((other) => isDeepStrictEqual(other, value)) ===
+                  index
+            ),
+          ]
+        : current.filter(
+            (item) => !values.some((value) => isDeepStrictEqual(item, value))
+          );
+  }
+
+  return frontmatter;
+}
+
+/**
+ * Apply a single migration rule to metadata in place
+ * @returns Whether the rule changed anything
+ */
+export function applyMigrationRule(
+  frontmatter: DocumentMetadata,
+  rule: FrontmatterMigrationRule
+): boolean {
+  const key = rule.type === "rename" ? rule.from : rule.key;
+  const keys = splitFieldPath(key);
+  const field = keys.pop() as string;
+  const parent = getParent(frontmatter, keys, false);
+
+  if (!parent || !Object.hasOwn(parent, field)) {
+    return false;
+  }
+
+  const value = parent[field];
+
+  switch (rule.type) {
+    case "rename": {
+      const targetKeys = splitFieldPath(rule.to);
+      const targetField = targetKeys.pop() as string;
+      const target = getParent(frontmatter, targetKeys, true) as Record<
+        string,
+        any
+      >;
+
+      // Never overwrite an existing field
+      if (Object.hasOwn(target, targetField)) {
+        return false;
+      }
+
+      if (target === parent) {
+        // Rename in place so the key keeps its position
+        const entries = Object.entries(parent);
+        for (const [entryKey] of entries) {
+          delete parent[entryKey];
+        }
+        for (const [entryKey, entryValue] of entries) {
+          parent[entryKey === field ? targetField : entryKey] = entryValue;
+        }
+      } else {
+        target[targetField] = value;
+        delete parent[field];
+      }
+      return true;
+    }
+
+    case "map_values": {
+      const mapValue = (item: unknown) =>
+        isMappable(item) && String(item) in rule.values
+          ? rule.values[String(item)]
+          : item;
+      const mapped = Array.isArray(value)
+        ? value.map(mapValue)
+        : mapValue(value);
+      parent[field] = mapped;
+      return !isDeepStrictEqual(mapped, value);
+    }
+
+    case "coerce": {
+      const coerced = coerceValue(value, rule.to);
+      if (coerced === undefined || isDeepStrictEqual(coerced, value)) {
+        return false;
+      }
+      parent[field] = coerced;
+      return true;
+    }
+
+    case "delete":
+      delete parent[field];
+      return true;
+  }
+}
+
+/**
+ * Convert a value to another type, or return undefined when it cannot be
+ * converted
+ */
+function coerceValue(
+  value: unknown,
+  type: "string" | "number" | "boolean" | "array" | "date" | "date-time"
+): unknown {
+  switch (type) {
+    case "string":
+      return isMappable(value) ? String(value) : undefined;
+    case "number": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      return typeof number === "number" && !isNaN(number) ? number : undefined;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const text = String(value).toLowerCase();
+      if (["true", "yes", "on", "1"].includes(text)) return true;
+      if (["false", "no", "off", "0"].includes(text)) return false;
+      return undefined;
+    }
+    case "array":
+      return Array.isArray(value) ? value : [value];
+    case "date":
+    case "date-time": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return undefined;
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return undefined;
+      }
+      if (type === "date-time") {
+        return date.toISOString();
+      }
+      // Keep the calendar date the value was written with
+      if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+        return value.slice(0, 10);
+      }
+      return [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, "0"),
+        String(date.getDate()).padStart(2, "0"),
+      ].join("-");
+    }
+  }
+}
+
+function isMappable(value: unknown): value is string | number | boolean {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+/**
+ * Walk to the object holding a dotted key, optionally creating missing levels
+ */
+function getParent(
+  frontmatter: DocumentMetadata,
+  keys: string[],
+  create: boolean
+): Record<string, any> | null {
+  let current: Record<string, any> = frontmatter;
+
+  for (const key of keys) {
+    if (UNSAFE_FIELD_NAMES.includes(key)) {
+      throw new Error(`Invalid field name: ${key}`);
+    }
+    const exists = Object.hasOwn(current, key);
+    if (!exists || !isPlainObject(current[key])) {
+      if (!create) return null;
+      if (exists && current[key] !== undefined) {
+        throw new Error(`Field ${key} is not an object`);
+      }
+      current[key] = {};
+    }
+    current = current[key];
+  }
+
+  return current;
+}
+
+function createParsed(
+  content: string,
+  format: FrontmatterFormat,
+  raw: string,
+  source: string,
+  eol: string,
+  errors: string[],
+  data: unknown = null
+): ParsedFrontmatter {
+  return {
+    frontmatter: isPlainObject(data) ? (data as DocumentMetadata) : {},
+    content: content.slice(raw.length),
+    format,
+    raw,
+    source,
+    eol,
+    errors,
+  };
+}
+
+/**
+ * Locate a leading JSON object, matching braces while skipping strings
+ */
+function matchJsonFrontmatter(
+  content: string
+): { raw: string; source: string } | null {
+  if (!content.startsWith("{")) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        const source = content.slice(0, i + 1);
+        const rest = content.slice(i + 1).match(/^[ \t]*(?:\r?\n|$)/);
+        // The object must end on a line of its own
+        return rest ? { raw: source + rest[0], source } : null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rewrite YAML frontmatter, reusing the parsed document so untouched keys
+ * keep their comments and formatting
+ */
+function updateYamlSource(
+  parsed: ParsedFrontmatter,
+  data: DocumentMetadata
+): string {
+  if (Object.keys(data).length === 0) {
+    return "";
+  }
+
+  const doc: YAML.Document = YAML.parseDocument(parsed.source);
+  if (!YAML.isMap(doc.contents)) {
+    doc.contents = doc.createNode({});
+  }
+
+  for (const key of Object.keys(parsed.frontmatter)) {
+    if (!(key in data)) {
+      doc.delete(key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!isDeepStrictEqual(parsed.frontmatter[key], value)) {
+      setYamlValue(doc, key, value);
+    }
+  }
+
+  // Follow the key order of the updated metadata (e.g. for renamed keys)
+  const order = Object.keys(data);
+  const keyOf = (pair: YAML.Pair) =>
+    String(YAML.isScalar(pair.key) ? pair.key.value : pair.key);
+  (doc.contents as YAML.YAMLMap).items.sort(
+    (a, b) => order.indexOf(keyOf(a)) - order.indexOf(keyOf(b))
+  );
+
+  return doc.toString(YAML_OUTPUT_OPTIONS);
+}
+
+/**
+ * Replace a single value in a YAML document, reusing the existing scalar node
+ * when possible so its quoting style survives the change
+ */
+function setYamlValue(doc: YAML.Document, key: string, value: unknown): void {
+  const existing = doc.get(key, true);
+  const isPrimitive =
+    value === null || ["string", "number", "boolean"].includes(typeof value);
+
+  if (
+    YAML.isScalar(existing) &&
+    isPrimitive &&
+    typeof existing.value === typeof value
+  ) {
+    existing.value = value;
+    return;
+  }
+
+  // Carry over the flow style and comments of the node being replaced
+  const node = doc.createNode(value);
+  if (YAML.isCollection(existing) && YAML.isCollection(node)) {
+    node.flow = existing.flow;
+  }
+  if (YAML.isNode(existing)) {
+    node.comment = existing.comment;
+    node.commentBefore = existing.commentBefore;
+  }
+
+  doc.set(key, node);
+}
+
+/**
+ * Rewrite TOML frontmatter in place. Keys assigned on a single line are
+ * edited where they are and new keys go at the end of their table, so
+ * comments and untouched values are kept as written. Changes that would
+ * need the block re-serialized are refused.
+ */
+function updateTomlSource(
+  parsed: ParsedFrontmatter,
+  data: DocumentMetadata
+): string {
+  const lines = parsed.source.split(/\r?\n/);
+  const layout = mapTomlLines(lines);
+  const removed = new Set<number>();
+  const added = new Map<number, string[]>();
+
+  const update = (
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    tablePath: string[]
+  ) => {
+    for (const key of Object.keys(before)) {
+      if (!Object.hasOwn(after, key)) {
+        const assigned = layout.values.get(toPathKey([...tablePath, key]));
+        if (!assigned) refuseTomlUpdate([...tablePath, key]);
+        removed.add(assigned.line);
+      }
+    }
+
+    for (const [key, value] of Object.entries(after)) {
+      const keyPath = [...tablePath, key];
+      const previous = Object.hasOwn(before, key) ? before[key] : undefined;
+      if (isDeepStrictEqual(previous, value)) continue;
+
+      if (isPlainObject(previous) && isPlainObject(value)) {
+        update(previous, value, keyPath);
+        continue;
+      }
+
+      const assignment = TOML.stringify({ [key]: value }).trim();
+      if (assignment.includes("\n")) refuseTomlUpdate(keyPath);
+
+      const assigned = layout.values.get(toPathKey(keyPath));
+      if (assigned) {
+        // Keep the key as it was written, in case it was dotted or quoted
+        const valueText = TOML.stringify({ value })
+          .trim()
+          .slice("value =".length);
+        lines[assigned.line] = assigned.prefix + valueText;
+      } else if (previous !== undefined) {
+        refuseTomlUpdate(keyPath);
+      } else {
+        const tableEnd = layout.tableEnds.get(toPathKey(tablePath));
+        if (tableEnd === undefined) refuseTomlUpdate(keyPath);
+        added.set(tableEnd, [...(added.get(tableEnd) ?? []), assignment]);
+      }
+    }
+  };
+
+  update(parsed.frontmatter, data, []);
+
+  const result: string[] = [...(added.get(-1) ?? [])];
+  lines.forEach((line, index) => {
+    if (!removed.has(index)) {
+      result.push(line);
+    }
+    result.push(...(added.get(index) ?? []));
+  });
+
+  const text = result.join("\n");
+  return text.trim() === "" ? "" : `${text}\n`;
+}
+
+function refuseTomlUpdate(keyPath: string[]): never {
+  throw new Error(
+    `Cannot update ${keyPath.join(
+      "."
+    )} in TOML frontmatter without rewriting it; edit it by hand`
+  );
+}
+
+/**
+ * Find the line each single-line TOML value is assigned on, and the last
+ * line with content in each table, keyed by path
+ */
+function mapTomlLines(lines: string[]): {
+  values: Map<string, { line: number; prefix: string }>;
+  tableEnds: Map<string, number>;
+} {
+  const values = new Map<string, { line: number; prefix: string }>();
+  const tableEnds = new Map<string, number>([[toPathKey([]), -1]]);
+  // null inside arrays of tables, which are left alone
+  let tablePath: string[] | null = [];
+
+  lines.forEach((line, index) => {
+    if (/^\s*\[\[/.test(line)) {
+      tablePath = null;
+      return;
+    }
+    if (/^\s*\[/.test(line)) {
+      try {
+        tablePath = getTomlKeyPath(TOML.parse(line));
+        tableEnds.set(toPathKey(tablePath), index);
+      } catch {
+        tablePath = null;
+      }
+      return;
+    }
+    if (tablePath === null || line.trim() === "") {
+      return;
+    }
+
+    tableEnds.set(toPathKey(tablePath), index);
+    const assignment = splitTomlAssignment(line);
+    if (assignment) {
+      const [prefix, keyPath] = assignment;
+      values.set(toPathKey([...tablePath, ...keyPath]), {
+        line: index,
+        prefix,
+      });
+    }
+  });
+
+  return { values, tableEnds };
+}
+
+/**
+ * Split a line holding a whole TOML assignment into the text up to and
+ * including the equals sign, and the key path it assigns
+ */
+function splitTomlAssignment(line: string): [string, string[]] | null {
+  try {
+    TOML.parse(line);
+  } catch {
+    // Part of a multi-line value
+    return null;
+  }
+
+  // Quoted keys can contain equals signs, so try each one in turn
+  for (let i = line.indexOf("="); i !== -1; i = line.indexOf("=", i + 1)) {
+    try {
+      const keyPath = getTomlKeyPath(TOML.parse(`${line.slice(0, i)}= 0`));
+      return [line.slice(0, i + 1), keyPath];
+    } catch {
+      // The equals sign is inside a quoted key
+    }
+  }
+  return null;
+}
+
+// Keys along the only path through a parsed assignment or table header
+function getTomlKeyPath(entry: Record<string, unknown>): string[] {
+  const keyPath: string[] = [];
+  let current: unknown = entry;
+  while (isPlainObject(current) && Object.keys(current).length === 1) {
+    const [key] = Object.keys(current);
+    keyPath.push(key);
+    current = current[key];
+  }
+  return keyPath;
+}
+
+function toPathKey(keyPath: string[]): string {
+  return JSON.stringify(keyPath);
+}
+
+/**
+ * Rewrite JSON frontmatter, keeping the original indentation
+ */
+function updateJsonSource(
+  parsed: ParsedFrontmatter,
+  data: DocumentMetadata
+): string {
+  const indent = parsed.source.match(/^\{\r?\n([ \t]+)"/)?.[1] ?? 2;
+  return JSON.stringify(data, null, indent);
+}
+
+/**
+ * Convert TOML values into plain JSON-compatible data: dates become ISO
+ * strings and tables become ordinary objects
+ */
+function normalizeTomlValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeTomlValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        normalizeTomlValue(item),
+      ])
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,12 @@
+/**
+ * Content hash utilities for the MCP Docs Service
+ */
+
+import crypto from "crypto";
+
+/**
+ * Hash of a document's exact content, used to detect concurrent changes
+ */
+export function computeContentHash(content: string): string {
+  return crypto.createHash("sha256").update(content, "utf-8").digest("hex");
+}
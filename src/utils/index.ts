@@ -1,2 +1,12 @@
 export * from "./path.js";
 export * from "./logging.js";
+export * from "./frontmatter.js";
+export * from "./metadata-schema.js";
+export * from "./markdown.js";
+export * from "./links.js";
+export * from "./hash.js";
+export * from "./journal.js";
+export * from "./patch.js";
+export * from "./navigation.js";
+export * from "./trash.js";
+export * from "./redirects.js";
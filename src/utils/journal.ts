@@ -0,0 +1,142 @@
+/**
+ * Change journal for the MCP Docs Service
+ *
+ * Each change made through the document tools is stored as one JSON file in
+ * `.mcp-docs/journal` under the docs directory, holding the content of every
+ * file it touched before and after the change so it can be undone and redone.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { JournalEntry, JournalFileChange } from "../types/docs.js";
+
+export const JOURNAL_DIR = path.join(".mcp-docs", "journal");
+
+// How many entries to keep; older ones are pruned as new ones are added
+export const MAX_JOURNAL_ENTRIES = 200;
+
+// Entry files are zero-padded so they sort in order
+const entryFileName = (id: number) => `${String(id).padStart(6, "0")}.json`;
+const ENTRY_FILE_REGEX = /^(\d+)\.json$/;
+
+/**
+ * Read every journal entry, oldest first. Entries that cannot be read are
+ * skipped and their file names returned as unreadable.
+ */
+export async function readJournal(
+  docsDir: string
+): Promise<{ entries: JournalEntry[]; unreadable: string[] }> {
+  const journalDir = path.join(docsDir, JOURNAL_DIR);
+  const entries: JournalEntry[] = [];
+  const unreadable: string[] = [];
+
+  for (const { file } of await listEntryFiles(journalDir)) {
+    try {
+      const entry = JSON.parse(
+        await fs.readFile(path.join(journalDir, file), "utf-8")
+      );
+      if (typeof entry?.id !== "number" || !Array.isArray(entry.files)) {
+        throw new Error("not a journal entry");
+      }
+      entries.push(entry);
+    } catch {
+      unreadable.push(file);
+    }
+  }
+
+  return { entries: entries.sort((a, b) => a.id - b.id), unreadable };
+}
+
+/**
+ * Add an entry to the journal with the next free id, then prune the oldest
+ * entries beyond MAX_JOURNAL_ENTRIES
+ */
+export async function appendJournalEntry(
+  docsDir: string,
+  entry: Omit<JournalEntry, "id">
+): Promise<JournalEntry> {
+  const journalDir = path.join(docsDir, JOURNAL_DIR);
+  const files = await listEntryFiles(journalDir);
+  const saved: JournalEntry = {
+    id: files.length > 0 ? files[files.length - 1].id + 1 : 1,
+    ...entry,
+  };
+  await saveJournalEntry(docsDir, saved);
+
+  for (const { file } of files.slice(
+    0,
+    Math.max(files.length + 1 - MAX_JOURNAL_ENTRIES, 0)
+  )) {
+    await fs.rm(path.join(journalDir, file), { force: true });
+  }
+  return saved;
+}
+
+/**
+ * Write an entry back to the journal, replacing any entry with its id
+ */
+export async function saveJournalEntry(
+  docsDir: string,
+  entry: JournalEntry
+): Promise<void> {
+  const journalDir = path.join(docsDir, JOURNAL_DIR);
+  await fs.mkdir(journalDir, { recursive: true });
+  await fs.writeFile(
+    path.join(journalDir, entryFileName(entry.id)),
+    JSON.stringify(entry, null, 2),
+    "utf-8"
+  );
+}
+
+/**
+ * Describe a file's change for the journal, using base64 if either version
+ * is not valid UTF-8 text
+ */
+export function createJournalFileChange(
+  filePath: string,
+  before: Buffer | null,
+  after: Buffer | null
+): JournalFileChange {
+  const isText = [before, after].every(
+    (content) =>
+      content === null ||
+      Buffer.from(content.toString("utf-8"), "utf-8").equals(content)
+  );
+  const encoding = isText ? "utf-8" : "base64";
+
+  return {
+    path: filePath,
+    before: before === null ? null : before.toString(encoding),
+    after: after === null ? null : after.toString(encoding),
+    encoding,
+  };
+}
+
+/**
+ * Decode one side of a journaled file change
+ */
+export function decodeJournalContent(
+  change: JournalFileChange,
+  side: "before" | "after"
+): Buffer | null {
+  const content = change[side];
+  return content === null ? null : Buffer.from(content, change.encoding);
+}
+
+// Entry files in the journal directory with their ids, oldest first
+async function listEntryFiles(
+  journalDir: string
+): Promise<Array<{ id: number; file: string }>> {
+  let files: string[];
+  try {
+    files = await fs.readdir(journalDir);
+  } catch {
+    return [];
+  }
+
+  return files
+    .map((file) => ({ file, match: file.match(ENTRY_FILE_REGEX) }))
+    .filter(({ match }) => match !== null)
+    .map(({ file, match }) => ({ id: Number(match![1]), file }))
+    .sort((a, b) => a.id - b.id);
+}
@@ -0,0 +1,526 @@
+/**
+ * Link utilities for the MCP Docs Service
+ *
+ * Resolves and checks the local link targets found by the markdown parser,
+ * including Obsidian-style wiki-links. Link validation and the health check
+ * both use these so they report the same broken links on the same lines.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { glob } from "glob";
+import { parseFrontmatter } from "./frontmatter.js";
+import {
+  MarkdownDocument,
+  MarkdownLink,
+  isExternalUrl,
+  parseMarkdown,
+  replaceRanges,
+  slugify,
+  splitLinkUrl,
+  splitWikiTarget,
+} from "./markdown.js";
+import { toPosix } from "./path.js";
+
+/**
+ * A link destination as written in a document
+ */
+export interface LinkTarget {
+  url: string;
+  line: number;
+  column: number;
+  isImage: boolean;
+  /** Offsets of the destination in the source */
+  urlStart: number;
+  urlEnd: number;
+}
+
+export interface BrokenLink {
+  link: string;
+  line: number;
+  column: number;
+  /** missing_file: the target does not exist; missing_anchor: the target
+   * exists but has no heading or HTML anchor matching the fragment */
+  reason: "missing_file" | "missing_anchor";
+  /** Absolute path the link resolved to */
+  resolvedPath: string;
+  anchor?: string;
+}
+
+/**
+ * File in the docs directory that wiki-links can point to
+ */
+export interface WikiPage {
+  /** Absolute path */
+  path: string;
+  /** Frontmatter title, for markdown documents */
+  title?: string;
+}
+
+/**
+ * A link in a document and the local file it points to
+ */
+export interface ResolvedLink {
+  link: MarkdownLink;
+  /** Absolute path */
+  resolvedPath: string;
+  /** Fragment or wiki-link heading, as written and without the # */
+  anchor?: string;
+}
+
+/**
+ * State shared while checking or rewriting links across many documents
+ */
+export interface LinkContext {
+  docsDir: string;
+  pages: WikiPage[];
+  /** Anchors of already-parsed documents, by absolute path */
+  anchors: Map<string, Set<string>>;
+}
+
+/**
+ * Index the files in the docs directory for wiki-link resolution
+ */
+export async function createLinkContext(docsDir: string): Promise<LinkContext> {
+  const files = await glob("**/*", { cwd: docsDir, nodir: true });
+  const pages: WikiPage[] = [];
+
+  for (const file of files.sort()) {
+    const filePath = path.join(docsDir, file);
+    if (!file.endsWith(".md")) {
+      pages.push({ path: filePath });
+      continue;
+    }
+
+    const { frontmatter } = parseFrontmatter(
+      await fs.readFile(filePath, "utf-8")
+    );
+    pages.push({
+      path: filePath,
+      title:
+        typeof frontmatter.title === "string" ? frontmatter.title : undefined,
+    });
+  }
+
+  return { docsDir, pages, anchors: new Map() };
+}
+
+/**
+ * Resolve a wiki-link page name to an absolute path. Pages are matched by
+ * path (relative to the docs root or the linking document), then by file
+ * name, then by frontmatter title; the .md extension is optional. When
+ * several files share a name, one in the linking document's folder wins,
+ * then the one with the shortest path.
+ */
+export function resolveWikiTarget(
+  context: LinkContext,
+  fromFile: string,
+  page: string
+): string | null {
+  const name = page.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const names = [name, `${name}.md`].map((candidate) =>
+    candidate.toLowerCase()
+  );
+  const fromDir = path.dirname(fromFile);
+
+  const byPath = context.pages.find((candidate) =>
+    names.some(
+      (n) =>
+        toPosix(
+          path.relative(context.docsDir, candidate.path)
+        ).toLowerCase() === n ||
+        toPosix(path.relative(fromDir, candidate.path)).toLowerCase() === n
+    )
+  );
+  if (byPath) {
+    return byPath.path;
+  }
+
+  const byName = context.pages
+    .filter((candidate) => {
+      const relative = toPosix(
+        path.relative(context.docsDir, candidate.path)
+      ).toLowerCase();
+      return names.some((n) => relative === n || relative.endsWith(`/${n}`));
+    })
+    .sort(
+      (a, b) =>
+        Number(path.dirname(b.path) === fromDir) -
+          Number(path.dirname(a.path) === fromDir) ||
+        a.path.length - b.path.length
+    );
+  if (byName.length > 0) {
+    return byName[0].path;
+  }
+
+  const byTitle = context.pages.find(
+    (candidate) => candidate.title?.toLowerCase() === name.toLowerCase()
+  );
+  return byTitle ? byTitle.path : null;
+}
+
+/**
+ * Shortest wiki-link page name that resolves to a file: the file name
+ * without .md when it is unambiguous, otherwise the path from the docs root
+ */
+export function getWikiPageName(
+  context: LinkContext,
+  fromFile: string,
+  filePath: string
+): string {
+  const name = path.basename(filePath).replace(/\.md$/, "");
+  if (resolveWikiTarget(context, fromFile, name) === filePath) {
+    return name;
+  }
+  return toPosix(path.relative(context.docsDir, filePath)).replace(/\.md$/, "");
+}
+
+/**
+ * Collect the destinations of inline links, images and reference
+ * definitions. Reference-style links are covered by their definition.
+ */
+export function getLinkTargets(document: MarkdownDocument): LinkTarget[] {
+  const targets: LinkTarget[] = [];
+
+  for (const link of document.links) {
+    if (
+      link.kind !== "wiki" &&
+      link.urlStart !== undefined &&
+      link.urlEnd !== undefined
+    ) {
+      targets.push({
+        url: link.url,
+        line: link.line,
+        column: link.position.column,
+        isImage: link.isImage,
+        urlStart: link.urlStart,
+        urlEnd: link.urlEnd,
+      });
+    }
+  }
+
+  for (const definition of document.definitions) {
+    targets.push({
+      url: definition.url,
+      line: definition.line,
+      column: definition.position.column,
+      isImage: false,
+      urlStart: definition.urlStart,
+      urlEnd: definition.urlEnd,
+    });
+  }
+
+  return targets.sort((a, b) => a.urlStart - b.urlStart);
+}
+
+/**
+ * Resolve a link to an absolute file path. Links starting with / are
+ * relative to the docs root. Returns null for external and anchor-only links.
+ */
+export function resolveLinkPath(
+  docsDir: string,
+  filePath: string,
+  url: string
+): string | null {
+  if (isExternalUrl(url)) {
+    return null;
+  }
+
+  const linkPath = decodeLinkPath(splitLinkUrl(url).path);
+  if (!linkPath) {
+    return null;
+  }
+
+  return linkPath.startsWith("/")
+    ? path.join(docsDir, linkPath)
+    : path.resolve(path.dirname(filePath), linkPath);
+}
+
+/**
+ * Anchors a document defines: heading slugs and HTML id/name attributes
+ */
+export function getAnchors(
+  content: string,
+  document: MarkdownDocument = parseMarkdown(content)
+): Set<string> {
+  const anchors = new Set(document.headings.map((heading) => heading.slug));
+  for (const match of content.matchAll(
+    /<[a-z][^>]*?\s(?:id|name)=["']([^"']+)["']/gi
+  )) {
+    anchors.add(match[1]);
+  }
+  return anchors;
+}
+
+/**
+ * Find links in a document whose local target does not exist, or whose
+ * #fragment does not match an anchor in the target document
+ * @param context Link context from createLinkContext
+ * @param filePath Absolute path of the document
+ * @param content Document content
+ */
+export async function findBrokenLinks(
+  context: LinkContext,
+  filePath: string,
+  content: string
+): Promise<BrokenLink[]> {
+  const brokenLinks: BrokenLink[] = [];
+  const document = parseMarkdown(content);
+  context.anchors.set(filePath, getAnchors(content, document));
+
+  const checkAnchor = async (
+    link: string,
+    target: { line: number; column: number },
+    resolvedPath: string,
+    anchor: string
+  ) => {
+    // Only markdown targets have heading anchors to check against
+    if (!anchor || !resolvedPath.endsWith(".md")) {
+      return;
+    }
+
+    const anchors = await loadAnchors(context, resolvedPath);
+    if (anchors && !anchors.has(anchor)) {
+      brokenLinks.push({
+        link,
+        line: target.line,
+        column: target.column,
+        reason: "missing_anchor",
+        resolvedPath,
+        anchor,
+      });
+    }
+  };
+
+  for (const target of getLinkTargets(document)) {
+    if (isExternalUrl(target.url)) {
+      continue;
+    }
+
+    const { fragment } = splitLinkUrl(target.url);
+    const resolvedPath =
+      resolveLinkPath(context.docsDir, filePath, target.url) ?? filePath;
+
+    if (resolvedPath !== filePath) {
+      try {
+        await fs.access(resolvedPath);
+      } catch {
+        brokenLinks.push({
+          link: target.url,
+          line: target.line,
+          column: target.column,
+          reason: "missing_file",
+          resolvedPath,
+        });
+        continue;
+      }
+    }
+
+    await checkAnchor(
+      target.url,
+      target,
+      resolvedPath,
+      decodeLinkPath(fragment.slice(1))
+    );
+  }
+
+  for (const link of document.links) {
+    if (link.kind !== "wiki") {
+      continue;
+    }
+
+    const { page, heading } = splitWikiTarget(link.url);
+    const resolvedPath = page
+      ? resolveWikiTarget(context, filePath, page)
+      : filePath;
+    const target = { line: link.line, column: link.position.column };
+
+    if (!resolvedPath) {
+      brokenLinks.push({
+        link: `[[${link.url}]]`,
+        ...target,
+        reason: "missing_file",
+        resolvedPath: path.resolve(path.dirname(filePath), page),
+      });
+      continue;
+    }
+
+    // Block references (#^id) point at blocks, not headings
+    if (!heading.startsWith("^")) {
+      await checkAnchor(
+        `[[${link.url}]]`,
+        target,
+        resolvedPath,
+        slugify(heading)
+      );
+    }
+  }
+
+  return brokenLinks.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Absolute paths of the local files a document links to or embeds,
+ * including wiki-link targets. Targets are not checked for existence.
+ */
+export function getReferencedPaths(
+  context: LinkContext,
+  filePath: string,
+  content: string
+): Set<string> {
+  const document = parseMarkdown(content);
+  const referenced = new Set<string>();
+
+  for (const target of getLinkTargets(document)) {
+    const resolvedPath = resolveLinkPath(context.docsDir, filePath, target.url);
+    if (resolvedPath) {
+      referenced.add(resolvedPath);
+    }
+  }
+
+  for (const link of document.links) {
+    const { page } = splitWikiTarget(link.url);
+    if (link.kind === "wiki" && page) {
+      const resolvedPath = resolveWikiTarget(context, filePath, page);
+      if (resolvedPath) {
+        referenced.add(resolvedPath);
+      }
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Local links and embeds in a document with the absolute path each one
+ * points to, including wiki-links. Anchor-only links point to the document
+ * itself. Targets are not checked for existence.
+ */
+export function resolveDocumentLinks(
+  context: LinkContext,
+  filePath: string,
+  content: string
+): ResolvedLink[] {
+  const resolved: ResolvedLink[] = [];
+
+  for (const link of parseMarkdown(content).links) {
+    let resolvedPath: string | null = null;
+    let anchor: string;
+    if (link.kind === "wiki") {
+      const { page, heading } = splitWikiTarget(link.url);
+      resolvedPath = page
+        ? resolveWikiTarget(context, filePath, page)
+        : heading
+        ? filePath
+        : null;
+      anchor = heading;
+    } else {
+      const { path: linkPath, fragment } = splitLinkUrl(link.url);
+      resolvedPath =
+        !linkPath && fragment
+          ? filePath
+          : resolveLinkPath(context.docsDir, filePath, link.url);
+      anchor = decodeLinkPath(fragment.slice(1));
+    }
+
+    if (resolvedPath) {
+      resolved.push(
+        anchor ? { link, resolvedPath, anchor } : { link, resolvedPath }
+      );
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Rewrite the local link destinations of a document so they keep pointing
+ * at the same files after the document moves, or after the files they
+ * point to move. Query strings and fragments are kept; links starting with
+ * / stay relative to the docs root. Wiki-links resolve by name and are left
+ * alone.
+ * @param content Document content
+ * @param docsDir Docs root
+ * @param fromFile Absolute path the document's links are currently relative to
+ * @param toFile Absolute path the document will live at
+ * @param mapTarget Returns the new absolute path of a moved target, or
+ * undefined if the target does not move
+ */
+export function rewriteLinks(
+  content: string,
+  docsDir: string,
+  fromFile: string,
+  toFile: string,
+  mapTarget: (targetPath: string) => string | undefined = () => undefined
+): string {
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const target of getLinkTargets(parseMarkdown(content))) {
+    const targetPath = resolveLinkPath(docsDir, fromFile, target.url);
+    if (!targetPath) {
+      continue;
+    }
+
+    const newTargetPath = mapTarget(targetPath) ?? targetPath;
+    const { path: linkPath, query, fragment } = splitLinkUrl(target.url);
+    const isRootRelative = linkPath.startsWith("/");
+
+    // Links that still point at the right file keep their original spelling
+    const unchanged = isRootRelative
+      ? newTargetPath === targetPath
+      : path.resolve(path.dirname(toFile), decodeLinkPath(linkPath)) ===
+        newTargetPath;
+    if (unchanged) {
+      continue;
+    }
+
+    let newLinkPath = isRootRelative
+      ? "/" + toPosix(path.relative(docsDir, newTargetPath))
+      : toPosix(path.relative(path.dirname(toFile), newTargetPath));
+    if (linkPath.startsWith("./") && !newLinkPath.startsWith("../")) {
+      newLinkPath = `./${newLinkPath}`;
+    }
+    if (linkPath.endsWith("/") && !newLinkPath.endsWith("/")) {
+      newLinkPath += "/";
+    }
+
+    // Spaces need encoding unless the destination is in angle brackets
+    const inAngleBrackets = content[target.urlStart - 1] === "<";
+    if (!inAngleBrackets && /\s/.test(newLinkPath)) {
+      newLinkPath = encodeURI(newLinkPath);
+    }
+
+    replacements.push({
+      start: target.urlStart,
+      end: target.urlEnd,
+      text: newLinkPath + query + fragment,
+    });
+  }
+
+  return replaceRanges(content, replacements);
+}
+
+async function loadAnchors(
+  context: LinkContext,
+  filePath: string
+): Promise<Set<string> | null> {
+  let anchors = context.anchors.get(filePath);
+  if (!anchors) {
+    try {
+      anchors = getAnchors(await fs.readFile(filePath, "utf-8"));
+    } catch {
+      // A directory named like a document, or unreadable: nothing to check
+      return null;
+    }
+    context.anchors.set(filePath, anchors);
+  }
+  return anchors;
+}
+
+function decodeLinkPath(linkPath: string): string {
+  try {
+    return decodeURIComponent(linkPath);
+  } catch {
+    return linkPath;
+  }
+}
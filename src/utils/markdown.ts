@@ -0,0 +1,863 @@
+/**
+ * Markdown utilities for the MCP Docs Service
+ *
+ * A lightweight parsed-document model shared by link validation, health
+ * checks and reference updates. It finds headings, links, images, link
+ * reference definitions and code blocks together with their source
+ * positions, so every tool agrees on what is a link and where it is.
+ */
+
+import { parseFrontmatter } from "./frontmatter.js";
+
+/**
+ * Location of a node in the source. Lines and columns are 1-based, offsets
+ * are 0-based indexes into the full document (including frontmatter).
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface MarkdownHeading {
+  level: number;
+  /** Heading text as written, without the leading #s */
+  text: string;
+  /** Anchor slug, unique within the document */
+  slug: string;
+  line: number;
+  position: SourcePosition;
+}
+
+export interface MarkdownLink {
+  kind: "inline" | "reference" | "autolink" | "wiki" | "html";
+  /** True for images, wiki embeds (![[...]]) and HTML media elements */
+  isImage: boolean;
+  /** Link text, alt text for images, or the alias of a wiki-link */
+  text: string;
+  /** Destination, with angle brackets removed. For wiki-links this is the
+   * target as written, e.g. "Page#Heading" */
+  url: string;
+  title?: string;
+  /** Reference label for reference-style links */
+  reference?: string;
+  line: number;
+  position: SourcePosition;
+  /** Offsets of the whole link in the source */
+  start: number;
+  end: number;
+  /** Offsets of the destination in the source (absent for reference links) */
+  urlStart?: number;
+  urlEnd?: number;
+}
+
+export interface LinkDefinition {
+  /** Normalized (case-folded) label */
+  label: string;
+  url: string;
+  title?: string;
+  line: number;
+  position: SourcePosition;
+  urlStart: number;
+  urlEnd: number;
+}
+
+/**
+ * A heading together with the lines it covers, up to the next heading of
+ * the same or a higher level
+ */
+export interface MarkdownSection {
+  level: number;
+  text: string;
+  slug: string;
+  /** Heading texts from the top-level section down to this one */
+  path: string[];
+  startLine: number;
+  /** Last line of the section, including subsections */
+  endLine: number;
+  children: MarkdownSection[];
+}
+
+export interface CodeBlock {
+  /** First and last line of the block, including fences */
+  startLine: number;
+  endLine: number;
+  fenced: boolean;
+  language?: string;
+}
+
+export interface MarkdownDocument {
+  headings: MarkdownHeading[];
+  links: MarkdownLink[];
+  definitions: LinkDefinition[];
+  codeBlocks: CodeBlock[];
+  /** Number of the first line after the frontmatter block */
+  bodyStartLine: number;
+  lineCount: number;
+}
+
+const ATX_HEADING_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_REGEX = /^ {0,3}([-*+]|\d{1,9}[.)])([ \t]|$)/;
+const DEFINITION_REGEX =
+  /^ {0,3}\[((?:\\.|[^\\\]])+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\((?:\\.|[^)\\])*\)))?[ \t]*$/;
+const WIKI_LINK_REGEX = /^(!?)\[\[([^[\]|\n]*)(?:\|([^[\]\n]*))?\]\]/;
+const HTML_TAG_REGEX = /^<([a-zA-Z][a-zA-Z0-9-]*)(\s[^<>]*)?\/?>/;
+const HTML_URL_ATTRIBUTE_REGEX = /\s(src|href)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+const HTML_MEDIA_TAGS = new Set(["img", "video", "audio", "source", "embed"]);
+const AUTOLINK_REGEX = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/;
+
+/**
+ * Parse a markdown document into headings, links and code blocks
+ */
+export function parseMarkdown(content: string): MarkdownDocument {
+  const lines = content.split("\n");
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const frontmatterLines = countLines(parseFrontmatter(content).raw);
+  const document: MarkdownDocument = {
+    headings: [],
+    links: [],
+    definitions: [],
+    codeBlocks: [],
+    bodyStartLine: frontmatterLines + 1,
+    lineCount: lines.length,
+  };
+
+  // First pass: classify block-level lines
+  const proseLines: number[] = [];
+  let fence: { marker: string; start: number; language?: string } | null = null;
+  let indentedStart = -1;
+  let previousBlank = true;
+  let inList = false;
+
+  for (let i = frontmatterLines; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    const isBlank = line.trim() === "";
+
+    if (fence) {
+      const close = line.match(FENCE_REGEX);
+      if (
+        close &&
+        close[1][0] === fence.marker[0] &&
+        close[1].length >= fence.marker.length &&
+        close[2].trim() === ""
+      ) {
+        document.codeBlocks.push({
+          startLine: fence.start + 1,
+          endLine: i + 1,
+          fenced: true,
+          language: fence.language,
+        });
+        fence = null;
+      }
+      continue;
+    }
+
+    // Indented code continues until a non-blank line with less indentation
+    if (indentedStart !== -1) {
+      if (isBlank || /^( {4}|\t)/.test(line)) {
+        continue;
+      }
+      closeIndentedBlock(document, lines, indentedStart, i);
+      indentedStart = -1;
+    }
+
+    const open = line.match(FENCE_REGEX);
+    if (open && !(open[1][0] === "`" && open[2].includes("`"))) {
+      fence = {
+        marker: open[1],
+        start: i,
+        language: open[2].trim().split(/\s+/)[0] || undefined,
+      };
+      previousBlank = false;
+      continue;
+    }
+
+    if (/^( {4}|\t)/.test(line) && previousBlank && !inList && !isBlank) {
+      indentedStart = i;
+      continue;
+    }
+
+    if (isBlank) {
+      previousBlank = true;
+      continue;
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      inList = true;
+    } else if (!/^[ \t]/.test(line)) {
+      inList = false;
+    }
+
+    const atx = line.match(ATX_HEADING_REGEX);
+    if (atx) {
+      addHeading(document, atx[1].length, atx[2] ?? "", i, lineStarts);
+      previousBlank = false;
+      proseLines.push(i);
+      continue;
+    }
+
+    const setext = line.match(SETEXT_UNDERLINE_REGEX);
+    const previousProse = proseLines[proseLines.length - 1];
+    if (
+      setext &&
+      !previousBlank &&
+      previousProse === i - 1 &&
+      !document.headings.some((heading) => heading.line === i) &&
+      !LIST_ITEM_REGEX.test(lines[i - 1])
+    ) {
+      addHeading(
+        document,
+        setext[1][0] === "=" ? 1 : 2,
+        lines[i - 1].replace(/\r$/, "").trim(),
+        i - 1,
+        lineStarts
+      );
+      previousBlank = false;
+      continue;
+    }
+
+    const definition = line.match(DEFINITION_REGEX);
+    if (definition) {
+      addDefinition(document, definition, line, i, lineStarts);
+      previousBlank = false;
+      continue;
+    }
+
+    proseLines.push(i);
+    previousBlank = false;
+  }
+
+  if (fence) {
+    // An unclosed fence runs to the end of the document
+    document.codeBlocks.push({
+      startLine: fence.start + 1,
+      endLine: lines.length,
+      fenced: true,
+      language: fence.language,
+    });
+  } else if (indentedStart !== -1) {
+    closeIndentedBlock(document, lines, indentedStart, lines.length);
+  }
+
+  document.codeBlocks.sort((a, b) => a.startLine - b.startLine);
+
+  // Second pass: inline links, now that all definitions are known
+  const definitions = new Map(
+    document.definitions.map((definition) => [definition.label, definition])
+  );
+  for (const i of proseLines) {
+    const line = lines[i].replace(/\r$/, "");
+    scanInline(line, 0, line.length, i, lineStarts, definitions, document);
+  }
+
+  return document;
+}
+
+/**
+ * Build the section tree of a document from its headings. Trailing blank
+ * lines are not counted as part of a section.
+ */
+export function getSections(
+  content: string,
+  document: MarkdownDocument = parseMarkdown(content)
+): MarkdownSection[] {
+  const lines = content.split("\n");
+  const roots: MarkdownSection[] = [];
+  const stack: MarkdownSection[] = [];
+
+  document.headings.forEach((heading, index) => {
+    const next = document.headings
+      .slice(index + 1)
+      .find((candidate) => candidate.level <= heading.level);
+    let endLine = next ? next.line - 1 : lines.length;
+    while (endLine > heading.line && lines[endLine - 1].trim() === "") {
+      endLine--;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+
+    const section: MarkdownSection = {
+      level: heading.level,
+      text: heading.text,
+      slug: heading.slug,
+      path: [...(parent?.path ?? []), heading.text],
+      startLine: heading.line,
+      endLine,
+      children: [],
+    };
+    (parent ? parent.children : roots).push(section);
+    stack.push(section);
+  });
+
+  return roots;
+}
+
+/**
+ * Flatten a section tree into document order
+ */
+export function flattenSections(
+  sections: MarkdownSection[]
+): MarkdownSection[] {
+  return sections.flatMap((section) => [
+    section,
+    ...flattenSections(section.children),
+  ]);
+}
+
+/**
+ * Find a section by anchor slug (with or without the leading #) or by
+ * heading path, e.g. "Installation > Linux". Heading paths may skip
+ * intermediate levels and are matched case-insensitively.
+ */
+export function findSection(
+  sections: MarkdownSection[],
+  address: string
+): MarkdownSection | null {
+  const all = flattenSections(sections);
+  const slug = address.trim().replace(/^#/, "");
+  const bySlug = all.find((section) => section.slug === slug);
+  if (bySlug) {
+    return bySlug;
+  }
+
+  const parts = address
+    .split(">")
+    .map((part) => stripInlineMarkdown(part).trim().toLowerCase());
+  return (
+    all.find((section) => {
+      const sectionPath = section.path.map((text) =>
+        stripInlineMarkdown(text).trim().toLowerCase()
+      );
+      if (sectionPath[sectionPath.length - 1] !== parts[parts.length - 1]) {
+        return false;
+      }
+      // Remaining parts must appear, in order, among the ancestors
+      let position = 0;
+      for (const part of parts.slice(0, -1)) {
+        position = sectionPath.indexOf(part, position);
+        if (position === -1 || position >= sectionPath.length - 1) {
+          return false;
+        }
+        position++;
+      }
+      return true;
+    }) ?? null
+  );
+}
+
+/**
+ * Generate a GitHub-style anchor slug for heading text
+ */
+export function slugify(text: string): string {
+  return stripInlineMarkdown(text)
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Reduce inline markdown (links, emphasis, code) to its plain text
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/!?\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[*_`~]/g, "");
+}
+
+/**
+ * Split a link destination into path, query string and fragment
+ */
+export function splitLinkUrl(url: string): {
+  path: string;
+  query: string;
+  fragment: string;
+} {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutFragment.indexOf("?");
+
+  return {
+    path:
+      queryIndex === -1
+        ? withoutFragment
+        : withoutFragment.slice(0, queryIndex),
+    query: queryIndex === -1 ? "" : withoutFragment.slice(queryIndex),
+    fragment,
+  };
+}
+
+/**
+ * Split a wiki-link target into page name and heading, e.g.
+ * "Page#Heading" into "Page" and "Heading". The page is empty for links to
+ * a heading in the same document.
+ */
+export function splitWikiTarget(target: string): {
+  page: string;
+  heading: string;
+} {
+  const hashIndex = target.indexOf("#");
+  return hashIndex === -1
+    ? { page: target.trim(), heading: "" }
+    : {
+        page: target.slice(0, hashIndex).trim(),
+        heading: target.slice(hashIndex + 1).trim(),
+      };
+}
+
+/**
+ * Whether a link destination points outside the docs (has a URL scheme or
+ * is protocol-relative)
+ */
+export function isExternalUrl(url: string): boolean {
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(url) || url.startsWith("//");
+}
+
+/**
+ * Replace ranges of a string. Ranges must not overlap.
+ */
+export function replaceRanges(
+  content: string,
+  replacements: Array<{ start: number; end: number; text: string }>
+): string {
+  let result = content;
+  for (const replacement of [...replacements].sort(
+    (a, b) => b.start - a.start
+  )) {
+    result =
+      result.slice(0, replacement.start) +
+      replacement.text +
+      result.slice(replacement.end);
+  }
+  return result;
+}
+
+function countLines(text: string): number {
+  if (!text) return 0;
+  const newlines = text.split("\n").length - 1;
+  return text.endsWith("\n") ? newlines : newlines + 1;
+}
+
+function position(
+  lineIndex: number,
+  column: number,
+  lineStarts: number[]
+): SourcePosition {
+  return {
+    line: lineIndex + 1,
+    column: column + 1,
+    offset: lineStarts[lineIndex] + column,
+  };
+}
+
+function addHeading(
+  document: MarkdownDocument,
+  level: number,
+  text: string,
+  lineIndex: number,
+  lineStarts: number[]
+): void {
+  // Number duplicate slugs the way GitHub does: intro, intro-1, intro-2
+  const base = slugify(text);
+  let slug = base;
+  for (let n = 1; document.headings.some((h) => h.slug === slug); n++) {
+    slug = `${base}-${n}`;
+  }
+
+  document.headings.push({
+    level,
+    text,
+    slug,
+    line: lineIndex + 1,
+    position: position(lineIndex, 0, lineStarts),
+  });
+}
+
+function addDefinition(
+  document: MarkdownDocument,
+  match: RegExpMatchArray,
+  line: string,
+  lineIndex: number,
+  lineStarts: number[]
+): void {
+  const label = normalizeLabel(match[1]);
+  const rawUrl = match[2];
+  const urlColumn = line.indexOf(rawUrl, line.indexOf("]:") + 2);
+  const angle = rawUrl.startsWith("<");
+
+  // The first definition of a label wins
+  if (document.definitions.some((definition) => definition.label === label)) {
+    return;
+  }
+
+  const start = lineStarts[lineIndex] + urlColumn + (angle ? 1 : 0);
+  const url = angle ? rawUrl.slice(1, -1) : rawUrl;
+  document.definitions.push({
+    label,
+    url,
+    title: match[3] ? match[3].slice(1, -1) : undefined,
+    line: lineIndex + 1,
+    position: position(lineIndex, line.search(/\S/), lineStarts),
+    urlStart: start,
+    urlEnd: start + url.length,
+  });
+}
+
+function closeIndentedBlock(
+  document: MarkdownDocument,
+  lines: string[],
+  start: number,
+  end: number
+): void {
+  // Trailing blank lines are not part of the block
+  let last = end - 1;
+  while (last > start && lines[last].trim() === "") {
+    last--;
+  }
+  document.codeBlocks.push({
+    startLine: start + 1,
+    endLine: last + 1,
+    fenced: false,
+  });
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Find links and images in a line of prose, skipping code spans
+ */
+function scanInline(
+  line: string,
+  from: number,
+  to: number,
+  lineIndex: number,
+  lineStarts: number[],
+  definitions: Map<string, LinkDefinition>,
+  document: MarkdownDocument
+): void {
+  const lineStart = lineStarts[lineIndex];
+  let i = from;
+
+  while (i < to) {
+    const char = line[i];
+
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      i = skipCodeSpan(line, i, to);
+      continue;
+    }
+
+    if (
+      (char === "[" && line[i + 1] === "[") ||
+      (char === "!" && line[i + 1] === "[" && line[i + 2] === "[")
+    ) {
+      const wiki = line.slice(i, to).match(WIKI_LINK_REGEX);
+      if (wiki && wiki[2].trim() !== "") {
+        const urlStart = lineStart + i + wiki[1].length + 2;
+        document.links.push({
+          kind: "wiki",
+          isImage: wiki[1] === "!",
+          text: wiki[3] ?? wiki[2],
+          url: wiki[2],
+          line: lineIndex + 1,
+          position: position(lineIndex, i, lineStarts),
+          start: lineStart + i,
+          end: lineStart + i + wiki[0].length,
+          urlStart,
+          urlEnd: urlStart + wiki[2].length,
+        });
+        i += wiki[0].length;
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      const autolink = line.slice(i, to).match(AUTOLINK_REGEX);
+      if (autolink) {
+        document.links.push({
+          kind: "autolink",
+          isImage: false,
+          text: autolink[1],
+          url: autolink[1],
+          line: lineIndex + 1,
+          position: position(lineIndex, i, lineStarts),
+          start: lineStart + i,
+          end: lineStart + i + autolink[0].length,
+          urlStart: lineStart + i + 1,
+          urlEnd: lineStart + i + 1 + autolink[1].length,
+        });
+        i += autolink[0].length;
+        continue;
+      }
+
+      const tag = line.slice(i, to).match(HTML_TAG_REGEX);
+      if (tag) {
+        const attributes = tag[2] ?? "";
+        const attributesStart = i + 1 + tag[1].length;
+        for (const attribute of attributes.matchAll(HTML_URL_ATTRIBUTE_REGEX)) {
+          const url = attribute[2] ?? attribute[3];
+          const urlStart =
+            lineStart +
+            attributesStart +
+            attribute.index! +
+            attribute[0].length -
+            url.length -
+            1;
+          document.links.push({
+            kind: "html",
+            isImage: HTML_MEDIA_TAGS.has(tag[1].toLowerCase()),
+            text: "",
+            url,
+            line: lineIndex + 1,
+            position: position(lineIndex, i, lineStarts),
+            start: lineStart + i,
+            end: lineStart + i + tag[0].length,
+            urlStart,
+            urlEnd: urlStart + url.length,
+          });
+        }
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    const isImage = char === "!" && line[i + 1] === "[";
+    if (char !== "[" && !isImage) {
+      i++;
+      continue;
+    }
+
+    const open = isImage ? i + 1 : i;
+    const close = findClosingBracket(line, open, to);
+    if (close === -1) {
+      i = open + 1;
+      continue;
+    }
+
+    const text = line.slice(open + 1, close);
+    const link = matchLinkTail(line, close + 1, to, text, definitions);
+
+    if (!link) {
+      // Not a link: keep scanning inside the brackets
+      i = open + 1;
+      continue;
+    }
+
+    document.links.push({
+      kind: link.kind,
+      isImage,
+      text,
+      url: link.url,
+      title: link.title,
+      reference: link.reference,
+      line: lineIndex + 1,
+      position: position(lineIndex, i, lineStarts),
+      start: lineStart + i,
+      end: lineStart + link.end,
+      urlStart:
+        link.urlStart !== undefined ? lineStart + link.urlStart : undefined,
+      urlEnd: link.urlEnd !== undefined ? lineStart + link.urlEnd : undefined,
+    });
+
+    // Link text may contain images, e.g. a badge wrapped in a link
+    if (!isImage) {
+      scanInline(
+        line,
+        open + 1,
+        close,
+        lineIndex,
+        lineStarts,
+        definitions,
+        document
+      );
+    }
+
+    i = link.end;
+  }
+}
+
+function skipCodeSpan(line: string, start: number, to: number): number {
+  let runEnd = start;
+  while (runEnd < to && line[runEnd] === "`") runEnd++;
+  const run = line.slice(start, runEnd);
+
+  let search = runEnd;
+  while (search < to) {
+    const found = line.indexOf(run, search);
+    if (found === -1 || found >= to) break;
+    let foundEnd = found + run.length;
+    if (line[foundEnd] !== "`" && line[found - 1] !== "`") {
+      return foundEnd;
+    }
+    while (foundEnd < to && line[foundEnd] === "`") foundEnd++;
+    search = foundEnd;
+  }
+
+  // Unmatched backticks are literal text
+  return runEnd;
+}
+
+function findClosingBracket(line: string, open: number, to: number): number {
+  let depth = 0;
+
+  for (let i = open; i < to; i++) {
+    const char = line[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "`") {
+      i = skipCodeSpan(line, i, to) - 1;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Match what follows a bracketed text: an inline destination, a reference
+ * label, or nothing (shortcut reference)
+ */
+function matchLinkTail(
+  line: string,
+  start: number,
+  to: number,
+  text: string,
+  definitions: Map<string, LinkDefinition>
+): {
+  kind: "inline" | "reference";
+  url: string;
+  title?: string;
+  reference?: string;
+  end: number;
+  urlStart?: number;
+  urlEnd?: number;
+} | null {
+  if (line[start] === "(") {
+    return matchInlineDestination(line, start, to);
+  }
+
+  if (line[start] === "[") {
+    const close = line.indexOf("]", start + 1);
+    if (close === -1 || close >= to) return null;
+    const label = normalizeLabel(line.slice(start + 1, close) || text);
+    const definition = definitions.get(label);
+    return definition
+      ? {
+          kind: "reference",
+          url: definition.url,
+          title: definition.title,
+          reference: label,
+          end: close + 1,
+        }
+      : null;
+  }
+
+  const definition = definitions.get(normalizeLabel(text));
+  return definition && line[start] !== ":"
+    ? {
+        kind: "reference",
+        url: definition.url,
+        title: definition.title,
+        reference: normalizeLabel(text),
+        end: start,
+      }
+    : null;
+}
+
+function matchInlineDestination(
+  line: string,
+  start: number,
+  to: number
+): {
+  kind: "inline";
+  url: string;
+  title?: string;
+  end: number;
+  urlStart: number;
+  urlEnd: number;
+} | null {
+  let i = start + 1;
+  while (i < to && /[ \t]/.test(line[i])) i++;
+
+  let urlStart = i;
+  let urlEnd: number;
+
+  if (line[i] === "<") {
+    const close = line.indexOf(">", i + 1);
+    if (close === -1 || close >= to) return null;
+    urlStart = i + 1;
+    urlEnd = close;
+    i = close + 1;
+  } else {
+    let depth = 0;
+    while (i < to) {
+      const char = line[i];
+      if (char === "\\") {
+        i += 2;
+        continue;
+      }
+      if (/\s/.test(char)) break;
+      if (char === "(") depth++;
+      if (char === ")") {
+        if (depth === 0) break;
+        depth--;
+      }
+      i++;
+    }
+    urlEnd = i;
+  }
+
+  while (i < to && /[ \t]/.test(line[i])) i++;
+
+  let title: string | undefined;
+  const quote = line[i];
+  if (quote === '"' || quote === "'" || quote === "(") {
+    const closeQuote = quote === "(" ? ")" : quote;
+    let j = i + 1;
+    while (j < to && line[j] !== closeQuote) {
+      if (line[j] === "\\") j++;
+      j++;
+    }
+    if (j >= to) return null;
+    title = line.slice(i + 1, j);
+    i = j + 1;
+    while (i < to && /[ \t]/.test(line[i])) i++;
+  }
+
+  if (line[i] !== ")") {
+    return null;
+  }
+
+  return {
+    kind: "inline",
+    url: line.slice(urlStart, urlEnd),
+    title,
+    end: i + 1,
+    urlStart,
+    urlEnd,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Metadata schema utilities for the MCP Docs Service
+ *
+ * Loads the frontmatter schema file from the docs root and checks document
+ * metadata against it: required fields (globally and per folder), value
+ * types, allowed values and date formats.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { minimatch } from "minimatch";
+import {
+  MetadataSchemaFileSchema,
+  MetadataSchema,
+  MetadataFieldRule,
+} from "../schemas/metadata.js";
+import { DocumentMetadata, MetadataViolation } from "../types/docs.js";
+import { toPosix } from "./path.js";
+
+export const METADATA_SCHEMA_FILE = "frontmatter.schema.json";
+
+export const DEFAULT_REQUIRED_FIELDS = ["title", "description", "status"];
+
+type DateFormat = "date" | "date-time" | "any";
+
+const DATE_FORMAT_NAMES: Record<DateFormat, string> = {
+  date: "date (YYYY-MM-DD)",
+  "date-time": "ISO 8601 date-time",
+  any: "date or ISO 8601 date-time",
+};
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Load the metadata schema from the docs root.
+ * Returns null when the docs directory has no schema file.
+ */
+export async function loadMetadataSchema(
+  docsDir: string
+): Promise<MetadataSchema | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(
+      path.join(docsDir, METADATA_SCHEMA_FILE),
+      "utf-8"
+    );
+  } catch {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${METADATA_SCHEMA_FILE}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const parsed = MetadataSchemaFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${METADATA_SCHEMA_FILE}: ${parsed.error}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Check a document's metadata against the schema
+ * @param schema Loaded schema, or null to only check the default required fields
+ * @param relativePath Document path relative to the docs root, used for folder rules
+ * @param frontmatter Parsed document metadata
+ * @param requiredFields Overrides the schema's global required fields
+ */
+export function validateFrontmatter(
+  schema: MetadataSchema | null,
+  relativePath: string,
+  frontmatter: DocumentMetadata,
+  requiredFields?: string[]
+): MetadataViolation[] {
+  const { required, fields } = resolveRules(
+    schema,
+    relativePath,
+    requiredFields
+  );
+  const violations: MetadataViolation[] = [];
+
+  for (const field of required) {
+    if (isMissing(frontmatter[field])) {
+      violations.push({
+        field,
+        kind: "missing",
+        expected: "a value",
+        actual: "missing",
+        message: `Missing required field: ${field}`,
+      });
+    }
+  }
+
+  for (const [field, rule] of Object.entries(fields)) {
+    const value = frontmatter[field];
+    if (!isMissing(value)) {
+      const violation = checkField(field, rule, value);
+      if (violation) {
+        violations.push(violation);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Required fields that apply to a document, including folder rules
+ */
+export function getRequiredFields(
+  schema: MetadataSchema | null,
+  relativePath: string,
+  requiredFields?: string[]
+): string[] {
+  return resolveRules(schema, relativePath, requiredFields).required;
+}
+
+function resolveRules(
+  schema: MetadataSchema | null,
+  relativePath: string,
+  requiredFields?: string[]
+): { required: string[]; fields: Record<string, MetadataFieldRule> } {
+  const required = new Set(
+    requiredFields || schema?.required || DEFAULT_REQUIRED_FIELDS
+  );
+  const fields: Record<string, MetadataFieldRule> = { ...schema?.fields };
+  const docPath = toPosix(relativePath);
+
+  for (const [pattern, folder] of Object.entries(schema?.folders ?? {})) {
+    if (minimatch(docPath, pattern)) {
+      folder.required.forEach((field) => required.add(field));
+      Object.assign(fields, folder.fields);
+    }
+  }
+
+  return { required: [...required], fields };
+}
+
+function checkField(
+  field: string,
+  rule: MetadataFieldRule,
+  value: unknown
+): MetadataViolation | null {
+  const actualType = describeType(value);
+
+  if (rule.type && !matchesType(rule.type, value)) {
+    return {
+      field,
+      kind: "type",
+      expected: rule.type,
+      actual: actualType,
+      message: `Field ${field} should be of type ${rule.type} but is ${actualType}`,
+    };
+  }
+
+  if (rule.items && Array.isArray(value)) {
+    const invalid = value.find((item) => typeof item !== rule.items);
+    if (invalid !== undefined) {
+      return {
+        field,
+        kind: "type",
+        expected: `array of ${rule.items}`,
+        actual: `array containing ${describeType(invalid)}`,
+        message: `Field ${field} should only contain ${rule.items} values`,
+      };
+    }
+  }
+
+  if (rule.enum && !rule.enum.some((allowed) => allowed === value)) {
+    return {
+      field,
+      kind: "enum",
+      expected: rule.enum.map((allowed) => JSON.stringify(allowed)).join(" | "),
+      actual: JSON.stringify(value),
+      message: `Field ${field} must be one of ${rule.enum.join(", ")}`,
+    };
+  }
+
+  const format = rule.format ?? (rule.type === "date" ? "any" : undefined);
+  if (format && typeof value === "string" && !matchesFormat(format, value)) {
+    return {
+      field,
+      kind: "format",
+      expected: DATE_FORMAT_NAMES[format],
+      actual: JSON.stringify(value),
+      message: `Field ${field} is not a valid ${DATE_FORMAT_NAMES[format]}`,
+    };
+  }
+
+  return null;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      // Format is checked separately so that date-time values can be allowed
+      return typeof value === "string" || value instanceof Date;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      return true;
+  }
+}
+
+function matchesFormat(format: DateFormat, value: string): boolean {
+  const matches =
+    (format !== "date-time" && DATE_REGEX.test(value)) ||
+    (format !== "date" && DATE_TIME_REGEX.test(value));
+  return matches && !isNaN(Date.parse(value));
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
@@ -0,0 +1,93 @@
+/**
+ * Navigation file utilities for the MCP Docs Service
+ *
+ * Reads the navigation.json file saved in the docs root, so structural
+ * changes can report and update the entries that point at documents.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { NavigationFileEntry } from "../types/docs.js";
+
+export const NAVIGATION_FILE = "navigation.json";
+
+/**
+ * Read the saved navigation, or null if the docs have none
+ */
+export async function readNavigationFile(
+  docsDir: string
+): Promise<NavigationFileEntry[] | null> {
+  try {
+    const navigation = JSON.parse(
+      await fs.readFile(path.join(docsDir, NAVIGATION_FILE), "utf-8")
+    );
+    return Array.isArray(navigation) ? navigation : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Navigation entries whose path matches, with the titles of the entries
+ * above each one
+ * @param matches Called with each entry's normalized path
+ */
+export function findNavigationEntries(
+  navigation: NavigationFileEntry[],
+  matches: (entryPath: string) => boolean
+): Array<{ title: string; path: string; trail: string[] }> {
+  const found: Array<{ title: string; path: string; trail: string[] }> = [];
+
+  const visit = (entries: NavigationFileEntry[], trail: string[]) => {
+    for (const entry of entries) {
+      if (
+        typeof entry.path === "string" &&
+        matches(path.normalize(entry.path))
+      ) {
+        found.push({ title: entry.title, path: entry.path, trail });
+      }
+      if (Array.isArray(entry.children)) {
+        visit(entry.children, [...trail, entry.title]);
+      }
+    }
+  };
+  visit(navigation, []);
+
+  return found;
+}
+
+/**
+ * Point navigation entries at moved documents and folders. Folder entries
+ * titled with the folder's old name take its new name.
+ * @param mapPath Returns the new path for a moved path relative to the docs
+ * root, or undefined if it did not move
+ * @returns The updated navigation and how many entries changed
+ */
+export function updateNavigationPaths(
+  navigation: NavigationFileEntry[],
+  mapPath: (entryPath: string) => string | undefined
+): { navigation: NavigationFileEntry[]; changed: number } {
+  let changed = 0;
+
+  const update = (entries: NavigationFileEntry[]): NavigationFileEntry[] =>
+    entries.map((entry) => {
+      const updated = { ...entry };
+      const newPath =
+        typeof entry.path === "string"
+          ? mapPath(path.normalize(entry.path))
+          : undefined;
+      if (newPath !== undefined && newPath !== entry.path) {
+        if (entry.title === path.basename(entry.path)) {
+          updated.title = path.basename(newPath);
+        }
+        updated.path = newPath;
+        changed++;
+      }
+      if (Array.isArray(entry.children)) {
+        updated.children = update(entry.children);
+      }
+      return updated;
+    });
+
+  return { navigation: update(navigation), changed };
+}
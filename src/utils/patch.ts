@@ -0,0 +1,261 @@
+/**
+ * Unified diff utilities for the MCP Docs Service
+ *
+ * Applies the hunks of a parsed unified diff one at a time so each can be
+ * reported on separately. Hunks may have moved since the diff was made and
+ * their line counts may be wrong; context is matched ignoring trailing
+ * whitespace, and with fuzz the outermost context lines may be ignored.
+ */
+
+import { parsePatch } from "diff";
+
+/**
+ * One file's changes from a unified diff. Paths are null for files that are
+ * created (oldPath) or deleted (newPath).
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  lines: string[];
+}
+
+/**
+ * Outcome of applying one hunk. Lines are 1-based in the patched content.
+ */
+export interface HunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  line?: number;
+  offset?: number;
+  fuzz?: number;
+  reason?: string;
+  expected?: string[];
+  found?: string[];
+}
+
+/**
+ * Parse a unified diff that may cover several files. Git-style `a/` and `b/`
+ * prefixes are removed from file names.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  return parsePatch(patch)
+    .filter((file) => file.hunks.length > 0)
+    .map((file) => {
+      let oldPath = cleanFileName(file.oldFileName);
+      let newPath = cleanFileName(file.newFileName);
+      const gitStyle =
+        (oldPath === null || oldPath.startsWith("a/")) &&
+        (newPath === null || newPath.startsWith("b/"));
+      if (gitStyle) {
+        oldPath = oldPath && oldPath.slice(2);
+        newPath = newPath && newPath.slice(2);
+      }
+
+      return {
+        oldPath,
+        newPath,
+        hunks: file.hunks.map((hunk) => ({
+          header: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+          oldStart: hunk.oldStart,
+          lines: trimTrailingBlankLines(
+            hunk.lines,
+            hunk.oldLines,
+            hunk.newLines
+          ),
+        })),
+      };
+    });
+}
+
+/**
+ * Apply hunks in order to content. Hunks that do not fit are skipped and
+ * reported with the lines they expected and the lines found instead.
+ * @param fuzz How many context lines at each end of a hunk may be ignored
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  fuzz = 0
+): { content: string; results: HunkResult[] } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let trailingNewline = content === "" || /\r?\n$/.test(content);
+  const lines =
+    content === "" ? [] : content.replace(/\r?\n$/, "").split(/\r?\n/);
+
+  const results: HunkResult[] = [];
+  let delta = 0;
+  let minPosition = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    // Leading and trailing context lines, which fuzz may drop
+    let leadingContext = 0;
+    let trailingContext = 0;
+    let changed = false;
+
+    for (const [i, line] of hunk.lines.entries()) {
+      const operation = line[0] ?? " ";
+      const text = line.slice(1);
+      if (operation === "\\") {
+        // "\ No newline at end of file" applies to the line before it
+        const previous = hunk.lines[i - 1]?.[0];
+        if (previous === "+") {
+          trailingNewline = false;
+        } else if (previous === "-") {
+          trailingNewline = true;
+        }
+        continue;
+      }
+      if (operation !== "+") {
+        oldLines.push(text);
+      }
+      if (operation !== "-") {
+        newLines.push(text);
+      }
+      if (operation === " ") {
+        trailingContext++;
+        if (!changed) {
+          leadingContext++;
+        }
+      } else {
+        changed = true;
+        trailingContext = 0;
+      }
+    }
+
+    const expectedPosition = Math.max(hunk.oldStart - 1 + delta, 0);
+    let match: { position: number; fuzz: number } | null = null;
+
+    for (let level = 0; level <= fuzz && !match; level++) {
+      const dropStart = Math.min(level, leadingContext);
+      const dropEnd = Math.min(level, trailingContext);
+      if (level > 0 && dropStart + dropEnd === 0) {
+        break;
+      }
+
+      const position = findLines(
+        lines,
+        oldLines.slice(dropStart, oldLines.length - dropEnd),
+        expectedPosition + dropStart,
+        minPosition
+      );
+      if (position !== null) {
+        match = { position, fuzz: level };
+        // Apply only the part of the hunk that matched
+        oldLines.splice(0, dropStart);
+        oldLines.splice(oldLines.length - dropEnd, dropEnd);
+        newLines.splice(0, dropStart);
+        newLines.splice(newLines.length - dropEnd, dropEnd);
+      }
+    }
+
+    if (!match) {
+      results.push({
+        index,
+        header: hunk.header,
+        applied: false,
+        reason: `context not found near line ${expectedPosition + 1}`,
+        expected: oldLines,
+        found: lines.slice(
+          expectedPosition,
+          expectedPosition + oldLines.length
+        ),
+      });
+      return;
+    }
+
+    lines.splice(match.position, oldLines.length, ...newLines);
+    results.push({
+      index,
+      header: hunk.header,
+      applied: true,
+      line: match.position + 1,
+      offset: match.position - expectedPosition,
+      fuzz: match.fuzz,
+    });
+    delta += newLines.length - oldLines.length;
+    minPosition = match.position + newLines.length;
+  });
+
+  const patched = lines.join(eol);
+  return {
+    content: patched + (trailingNewline && lines.length > 0 ? eol : ""),
+    results,
+  };
+}
+
+/**
+ * Find where lines occur in content, searching outward from the expected
+ * position. Trailing whitespace is ignored.
+ */
+function findLines(
+  lines: string[],
+  target: string[],
+  expected: number,
+  minPosition: number
+): number | null {
+  const maxPosition = lines.length - target.length;
+  const fits = (position: number) =>
+    target.every((line, i) => lines[position + i].trimEnd() === line.trimEnd());
+
+  const start = Math.min(
+    Math.max(expected, minPosition),
+    Math.max(maxPosition, 0)
+  );
+  for (let distance = 0; ; distance++) {
+    const after = start + distance;
+    const before = start - distance;
+    if (after > maxPosition && before < minPosition) {
+      return null;
+    }
+    if (after <= maxPosition && fits(after)) {
+      return after;
+    }
+    if (
+      distance > 0 &&
+      before >= minPosition &&
+      before <= maxPosition &&
+      fits(before)
+    ) {
+      return before;
+    }
+  }
+}
+
+function cleanFileName(fileName: string | undefined): string | null {
+  if (!fileName || fileName === "/dev/null") {
+    return null;
+  }
+  return fileName.replace(/^\.\//, "");
+}
+
+// Blank lines after a hunk are read as context by the parser; drop the ones
+// beyond the hunk's declared size
+function trimTrailingBlankLines(
+  lines: string[],
+  oldCount: number,
+  newCount: number
+): string[] {
+  const trimmed = [...lines];
+  const count = (operation: string) =>
+    trimmed.filter((line) => (line[0] ?? " ") === " " || line[0] === operation)
+      .length;
+
+  while (
+    trimmed.length > 0 &&
+    trimmed[trimmed.length - 1].trim() === "" &&
+    count("-") > oldCount &&
+    count("+") > newCount
+  ) {
+    trimmed.pop();
+  }
+  return trimmed;
+}
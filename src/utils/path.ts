@@ -9,6 +9,14 @@ export function normalizePath(p: string): string {
   return path.normalize(p);
 }
 
+/**
+ * Converts a relative path to forward slashes, as used in links and
+ * navigation files
+ */
+export function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
 /**
  * Expands the home directory in a path (e.g., ~/docs -> /home/user/docs)
  */
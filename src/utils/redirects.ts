@@ -0,0 +1,138 @@
+/**
+ * Redirect map utilities for the MCP Docs Service
+ *
+ * redirects.json in the docs root maps each path a document has had to the
+ * path it has now, so a published site can keep old URLs working. Paths are
+ * relative to the docs root.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { toPosix } from "./path.js";
+
+export const REDIRECTS_FILE = "redirects.json";
+
+export type RedirectFormat = "netlify" | "nginx" | "mkdocs";
+
+/**
+ * Read the saved redirects, old path to new path
+ */
+export async function readRedirects(
+  docsDir: string
+): Promise<Record<string, string>> {
+  try {
+    const redirects = JSON.parse(
+      await fs.readFile(path.join(docsDir, REDIRECTS_FILE), "utf-8")
+    );
+    return redirects &&
+      typeof redirects === "object" &&
+      !Array.isArray(redirects)
+      ? redirects
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record moves in a redirect map. Chains are collapsed so every old path
+ * points straight at the current one (A→B then B→C gives A→C and B→C), and
+ * a path that is in use again stops redirecting.
+ * @returns The updated map, sorted by old path
+ */
+export function addRedirects(
+  redirects: Record<string, string>,
+  moves: Array<{ from: string; to: string }>
+): Record<string, string> {
+  const updated = { ...redirects };
+
+  for (const move of moves) {
+    const from = toPosix(move.from);
+    const to = toPosix(move.to);
+    if (from === to) {
+      continue;
+    }
+
+    for (const [oldPath, newPath] of Object.entries(updated)) {
+      if (newPath === from) {
+        updated[oldPath] = to;
+      }
+    }
+    updated[from] = to;
+    delete updated[to];
+
+    for (const [oldPath, newPath] of Object.entries(updated)) {
+      if (oldPath === newPath) {
+        delete updated[oldPath];
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(updated).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Render a redirect map for a hosting platform or site generator. Netlify
+ * and nginx redirect published URLs, where `guides/setup.md` is served at
+ * `/guides/setup/` and `guides/index.md` at `/guides/`; the MkDocs
+ * redirects plugin takes the document paths themselves.
+ * @param baseUrl Path the docs are published under
+ */
+export function formatRedirects(
+  redirects: Record<string, string>,
+  format: RedirectFormat,
+  baseUrl = "/"
+): string {
+  const entries = Object.entries(redirects);
+
+  switch (format) {
+    case "netlify":
+      return entries
+        .map(
+          ([from, to]) => `${toUrl(from, baseUrl)} ${toUrl(to, baseUrl)} 301\n`
+        )
+        .join("");
+    case "nginx":
+      return (
+        "map $uri $docs_redirect {\n" +
+        entries
+          .map(
+            ([from, to]) =>
+              `    ${nginxValue(toUrl(from, baseUrl))} ${nginxValue(
+                toUrl(to, baseUrl)
+              )};\n`
+          )
+          .join("") +
+        "}\n"
+      );
+    case "mkdocs":
+      return (
+        "plugins:\n" +
+        "  - redirects:\n" +
+        "      redirect_maps:\n" +
+        entries
+          .map(
+            ([from, to]) =>
+              `        ${JSON.stringify(from)}: ${JSON.stringify(to)}\n`
+          )
+          .join("")
+      );
+  }
+}
+
+// URL a file is published at: markdown pages get directory URLs
+function toUrl(filePath: string, baseUrl: string): string {
+  let url = filePath;
+  if (url.endsWith(".md")) {
+    url = url.replace(/(^|\/)index\.md$/, "$1").replace(/\.md$/, "/");
+  }
+  const base = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+  return encodeURI(`${base.startsWith("/") ? base : `/${base}`}${url}`);
+}
+
+// nginx values with spaces, semicolons or quotes need quoting
+function nginxValue(value: string): string {
+  return /[\s;"'{}]/.test(value) ? JSON.stringify(value) : value;
+}
@@ -0,0 +1,69 @@
+/**
+ * Trash utilities for the MCP Docs Service
+ *
+ * Deleted documents are moved to `.mcp-docs/trash` under the docs directory.
+ * Each one gets its own folder holding the file and an entry.json recording
+ * where it came from, so it can be restored.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { TrashEntry } from "../types/docs.js";
+
+export const TRASH_DIR = path.join(".mcp-docs", "trash");
+
+const ENTRY_FILE = "entry.json";
+
+/**
+ * New trash id; ids sort by deletion time
+ */
+export function createTrashId(): string {
+  return `${Date.now()}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Paths of a trash entry's metadata and file, relative to the docs root
+ */
+export function getTrashPaths(entry: Pick<TrashEntry, "id" | "originalPath">): {
+  folder: string;
+  entryFile: string;
+  file: string;
+} {
+  const folder = path.join(TRASH_DIR, entry.id);
+  return {
+    folder,
+    entryFile: path.join(folder, ENTRY_FILE),
+    file: path.join(folder, path.basename(entry.originalPath)),
+  };
+}
+
+/**
+ * Read every entry in the trash, most recently deleted first
+ */
+export async function readTrash(docsDir: string): Promise<TrashEntry[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(path.join(docsDir, TRASH_DIR));
+  } catch {
+    return [];
+  }
+
+  const entries: TrashEntry[] = [];
+  for (const id of ids) {
+    try {
+      entries.push(
+        JSON.parse(
+          await fs.readFile(
+            path.join(docsDir, TRASH_DIR, id, ENTRY_FILE),
+            "utf-8"
+          )
+        )
+      );
+    } catch {
+      // Not a trash entry
+    }
+  }
+
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { z } from "zod";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { cleanupTestDocsDir } from "../test-utils";
+
+describe("MCP tool routing", () => {
+  let testDocsDir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    // A directory of its own, so other test files can run at the same time
+    testDocsDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-docs-routing-"));
+
+    // Run the server from source
+    client = new Client({ name: "routing-test", version: "1.0.0" });
+    await client.connect(
+      new StdioClientTransport({
+        command: path.join(process.cwd(), "node_modules", ".bin", "vite-node"),
+        args: [
+          "--config",
+          "vitest.config.ts",
+          "src/index.ts",
+          "--",
+          "--docs-dir",
+          testDocsDir,
+        ],
+        stderr: "ignore",
+      })
+    );
+  }, 60000);
+
+  afterAll(async () => {
+    await client?.close();
+    await cleanupTestDocsDir(testDocsDir);
+  });
+
+  it("should dispatch every advertised tool", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+
+    // Tools that would write outside the docs directory by default
+    const overrides: Record<string, Record<string, unknown>> = {
+      consolidate_documentation: {
+        outputPath: path.join(testDocsDir, "consolidated-docs.md"),
+      },
+    };
+
+    const unrouted: string[] = [];
+    for (const tool of tools) {
+      const result = await client.callTool(
+        { name: tool.name, arguments: overrides[tool.name] ?? {} },
+        z.any()
+      );
+      if (String(result.error ?? "").startsWith("Unknown tool")) {
+        unrouted.push(tool.name);
+      }
+    }
+
+    expect(unrouted).toEqual([]);
+  }, 60000);
+
+  it("should report tools that are not advertised", async () => {
+    const result = await client.callTool(
+      { name: "move_documentation_document", arguments: {} },
+      z.any()
+    );
+
+    expect(result.error).toBe("Unknown tool: move_documentation_document");
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { DocumentHandler } from "../../src/handlers/documents";
+import {
+  DocumentHandler,
+  parseFrontmatter,
+} from "../../src/handlers/documents";
 import fs from "fs/promises";
+import os from "os";
 import path from "path";
 import {
   createTestDocsDir,
@@ -74,6 +78,91 @@ This document has no frontmatter.
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain("Error reading document");
     });
+
+    describe("partial reads", () => {
+      const longDoc = `# Guide
+
+Intro.
+
+## Installation
+
+### Linux
+
+apt install docs
+
+### macOS
+
+brew install docs
+
+## Usage
+
+Run it.
+`;
+
+      beforeEach(async () => {
+        await createSampleDocument(testDocsDir, "guide.md", longDoc);
+      });
+
+      it("should read a section by heading path", async () => {
+        const result = await documentHandler.readDocument("guide.md", {
+          section: "Installation > Linux",
+        });
+
+        expect(result.content[0].text).toBe("### Linux\n\napt install docs");
+        expect(result.metadata).toMatchObject({
+          startLine: 7,
+          endLine: 9,
+          totalLines: 18,
+          hasMore: false,
+        });
+      });
+
+      it("should read a section by anchor including subsections", async () => {
+        const result = await documentHandler.readDocument("guide.md", {
+          section: "#installation",
+        });
+
+        expect(result.content[0].text).toContain("## Installation");
+        expect(result.content[0].text).toContain("brew install docs");
+        expect(result.content[0].text).not.toContain("## Usage");
+      });
+
+      it("should read a line range and report remaining content", async () => {
+        const result = await documentHandler.readDocument("guide.md", {
+          offset: 5,
+          limit: 3,
+        });
+
+        expect(result.content[0].text).toBe("## Installation\n\n### Linux");
+        expect(result.metadata).toMatchObject({
+          startLine: 5,
+          endLine: 7,
+          hasMore: true,
+          nextOffset: 8,
+        });
+      });
+
+      it("should stop at the token budget", async () => {
+        const result = await documentHandler.readDocument("guide.md", {
+          maxTokens: 5,
+        });
+
+        expect(result.metadata?.startLine).toBe(1);
+        expect(result.metadata?.endLine).toBeLessThan(18);
+        expect(result.metadata?.hasMore).toBe(true);
+        expect(result.content[0].text.startsWith("# Guide")).toBe(true);
+      });
+
+      it("should list available sections when a section is missing", async () => {
+        const result = await documentHandler.readDocument("guide.md", {
+          section: "Windows",
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain("Section not found: Windows");
+        expect(result.content[0].text).toContain("#linux");
+      });
+    });
   });
 
   describe("writeDocument", () => {
@@ -307,5 +396,2158 @@ This is the original content.
         expect(true).toBe(true);
       }
     });
+
+    describe("ambiguous matches", () => {
+      const table = `| Name | Status |
+| ---- | ------ |
+| api  | draft  |
+| cli  | draft  |
+| web  | draft  |
+`;
+      const readTable = () =>
+        fs.readFile(path.join(testDocsDir, "table.md"), "utf-8");
+
+      beforeEach(async () => {
+        await createSampleDocument(testDocsDir, "table.md", table);
+      });
+
+      it("should fail and list candidate lines when a match is ambiguous", async () => {
+        const result = await documentHandler.editDocument("table.md", [
+          { oldText: "draft", newText: "done" },
+        ]);
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain(
+          "Found 3 matches for edit at lines 3, 4, 5"
+        );
+        expect(await readTable()).toBe(table);
+      });
+
+      it("should replace the requested occurrence", async () => {
+        const result = await documentHandler.editDocument("table.md", [
+          { oldText: "draft", newText: "done", occurrence: 2 },
+        ]);
+
+        expect(result.metadata?.edits).toEqual([{ lines: [4] }]);
+        expect(await readTable()).toContain("| cli  | done  |");
+        expect(await readTable()).toContain("| api  | draft  |");
+      });
+
+      it("should use the match closest to startLine", async () => {
+        await documentHandler.editDocument("table.md", [
+          { oldText: "draft", newText: "done", startLine: 6 },
+        ]);
+
+        expect(await readTable()).toContain("| web  | done  |");
+        expect(await readTable()).toContain("| cli  | draft  |");
+      });
+
+      it("should replace every match with replaceAll", async () => {
+        await documentHandler.editDocument("table.md", [
+          { oldText: "draft ", newText: "done  ", replaceAll: true },
+        ]);
+
+        expect(await readTable()).not.toContain("draft");
+      });
+
+      it("should treat whitespace-tolerant matches the same way", async () => {
+        await createSampleDocument(
+          testDocsDir,
+          "steps.md",
+          "1. First\n  step one\n2. Second\n    step one\n"
+        );
+
+        const ambiguous = await documentHandler.editDocument("steps.md", [
+          { oldText: "step one ", newText: "step two" },
+        ]);
+        expect(ambiguous.content[0].text).toContain(
+          "Found 2 matches for edit at lines 2, 4"
+        );
+
+        await documentHandler.editDocument("steps.md", [
+          { oldText: "step one ", newText: "step two", occurrence: 2 },
+        ]);
+        expect(
+          await fs.readFile(path.join(testDocsDir, "steps.md"), "utf-8")
+        ).toBe("1. First\n  step one\n2. Second\n    step two\n");
+      });
+    });
+  });
+
+  describe("updateNavigationOrder", () => {
+    it("should update the order without rewriting other metadata", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "ordered.md",
+        `---
+title: "Ordered: Doc" # display title
+tags:
+  - one
+  - two
+order: 1
+---
+
+# Ordered Doc
+`
+      );
+
+      const result = await documentHandler.updateNavigationOrder(
+        "ordered.md",
+        3
+      );
+      expect(result.isError).toBeUndefined();
+
+      const fileContent = await fs.readFile(
+        path.join(testDocsDir, "ordered.md"),
+        "utf-8"
+      );
+      expect(fileContent).toBe(`---
+title: "Ordered: Doc" # display title
+tags:
+  - one
+  - two
+order: 3
+---
+
+# Ordered Doc
+`);
+    });
+  });
+
+  describe("renameDocument", () => {
+    it("should update the title and keep the remaining frontmatter", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "old-name.md",
+        `---
+title: Old Name
+tags: [a, b]
+---
+
+# Old Name
+`
+      );
+
+      const result = await documentHandler.renameDocument(
+        "old-name.md",
+        "new-name",
+        false
+      );
+      expect(result.isError).toBeUndefined();
+
+      const fileContent = await fs.readFile(
+        path.join(testDocsDir, "new-name.md"),
+        "utf-8"
+      );
+      expect(fileContent).toBe(`---
+title: new-name
+tags: [a, b]
+---
+
+# Old Name
+`);
+    });
+
+    it("should rename a document whose frontmatter cannot be parsed", async () => {
+      const content = "---\nbad: [unclosed\n---\n\n# Doc\n";
+      await createSampleDocument(testDocsDir, "a.md", content);
+
+      const result = await documentHandler.renameDocument("a.md", "New");
+
+      expect(result.isError).toBeUndefined();
+      expect(await fs.readFile(path.join(testDocsDir, "New.md"), "utf-8")).toBe(
+        content
+      );
+    });
+
+    it("should update relative links and wiki-links by title", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "---\ntitle: Setup\n---\n\n# Setup\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "reference/api.md",
+        "[Setup](../guides/setup.md#install) and [[Setup]]\n"
+      );
+
+      const preview = await documentHandler.renameDocument(
+        "guides/setup.md",
+        "installation",
+        true,
+        undefined,
+        true
+      );
+      expect(preview.metadata?.updatedFiles).toEqual(["reference/api.md"]);
+      expect(preview.content[0].text).toContain(
+        "+[Setup](../guides/installation.md#install) and [[installation]]"
+      );
+      await expect(
+        fs.access(path.join(testDocsDir, "guides/setup.md"))
+      ).resolves.toBeUndefined();
+
+      const result = await documentHandler.renameDocument(
+        "guides/setup.md",
+        "installation"
+      );
+      expect(result.metadata?.referencesUpdated).toBe(1);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "reference/api.md"), "utf-8")
+      ).toBe(
+        "[Setup](../guides/installation.md#install) and [[installation]]\n"
+      );
+    });
+  });
+
+  describe("validateMetadata", () => {
+    it("should read TOML and JSON frontmatter", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "hugo.md",
+        `+++
+title = "Hugo Page"
+description = "Written for Hugo"
+status = "published"
++++
+
+# Hugo Page
+`
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "json.md",
+        `{
+  "title": "JSON Page",
+  "description": "JSON frontmatter",
+  "status": "draft"
+}
+
+# JSON Page
+`
+      );
+
+      const result = await documentHandler.validateMetadata();
+
+      expect(result.metadata?.missingMetadata).toEqual([]);
+      expect(result.metadata?.completenessPercentage).toBe(100);
+    });
+
+    it("should report schema violations from frontmatter.schema.json", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "frontmatter.schema.json",
+        JSON.stringify({
+          fields: { status: { type: "string", enum: ["draft", "published"] } },
+          folders: { "api/**": { required: ["version"] } },
+        })
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "api/users.md",
+        `---
+title: Users API
+description: User endpoints
+status: done
+---
+
+# Users API
+`
+      );
+
+      const result = await documentHandler.validateMetadata();
+
+      expect(result.metadata?.missingMetadata).toEqual([
+        { file: "api/users.md", missingFields: ["version"] },
+      ]);
+      expect(result.metadata?.invalidMetadata).toEqual([
+        expect.objectContaining({
+          file: "api/users.md",
+          field: "status",
+          kind: "enum",
+          actual: '"done"',
+        }),
+      ]);
+      expect(result.content[0].text).toContain(
+        "api/users.md: Field status must be one of draft, published"
+      );
+    });
+  });
+
+  describe("updateDocumentFrontmatter", () => {
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/one.md",
+        `---
+title: One
+tags: [guide]
+---
+
+# One
+`
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "guides/two.md",
+        `---
+title: Two
+status: draft
+---
+
+# Two
+`
+      );
+      await createSampleDocument(testDocsDir, "other.md", "# Other\n");
+    });
+
+    it("should apply operations to every document matching a glob", async () => {
+      const result = await documentHandler.updateDocumentFrontmatter(
+        "guides/*.md",
+        [
+          { op: "set", key: "status", value: "published" },
+          { op: "append", key: "tags", value: "reviewed" },
+        ]
+      );
+
+      expect(result.metadata?.changedCount).toBe(2);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "guides/one.md"), "utf-8")
+      ).toBe(`---
+title: One
+tags: [guide, reviewed]
+status: published
+---
+
+# One
+`);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "other.md"), "utf-8")
+      ).toBe("# Other\n");
+    });
+
+    it("should return diffs without writing in dry-run mode", async () => {
+      const result = await documentHandler.updateDocumentFrontmatter(
+        "guides/two.md",
+        [{ op: "unset", key: "status" }],
+        true
+      );
+
+      expect(result.content[0].text).toContain("-status: draft");
+      expect(result.metadata?.files).toEqual([
+        { path: "guides/two.md", changed: true },
+      ]);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "guides/two.md"), "utf-8")
+      ).toContain("status: draft");
+    });
+
+    it("should report documents that cannot be updated", async () => {
+      const result = await documentHandler.updateDocumentFrontmatter("guides", [
+        { op: "append", key: "title", value: "x" },
+      ]);
+
+      expect(result.metadata?.changedCount).toBe(0);
+      expect(result.content[0].text).toContain(
+        "guides/one.md: Field title is not an array"
+      );
+    });
+  });
+
+  describe("migrateFrontmatter", () => {
+    it("should apply rules and report how many files each touched", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "a.md",
+        "---\ntitle: A\nauthor: jane\nstatus: done\n---\n\n# A\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "api/b.md",
+        "---\ntitle: B\nstatus: done\n---\n\n# B\n"
+      );
+
+      const result = await documentHandler.migrateFrontmatter([
+        { type: "rename", from: "author", to: "owners" },
+        {
+          type: "map_values",
+          key: "status",
+          values: { done: "published" },
+          glob: "api/**",
+        },
+      ]);
+
+      expect(result.metadata?.changedFiles).toEqual(["a.md", "api/b.md"]);
+      expect(
+        result.metadata?.rules.map((rule: any) => rule.filesTouched)
+      ).toEqual([1, 1]);
+      expect(await fs.readFile(path.join(testDocsDir, "a.md"), "utf-8")).toBe(
+        "---\ntitle: A\nowners: jane\nstatus: done\n---\n\n# A\n"
+      );
+      expect(
+        await fs.readFile(path.join(testDocsDir, "api/b.md"), "utf-8")
+      ).toBe("---\ntitle: B\nstatus: published\n---\n\n# B\n");
+    });
+
+    it("should not write files in dry-run mode", async () => {
+      const original = "---\ntitle: A\nlegacy: true\n---\n\n# A\n";
+      await createSampleDocument(testDocsDir, "a.md", original);
+
+      const result = await documentHandler.migrateFrontmatter(
+        [{ type: "delete", key: "legacy" }],
+        "**/*.md",
+        true
+      );
+
+      expect(result.content[0].text).toContain("1. delete legacy: 1 files");
+      expect(result.content[0].text).toContain("-legacy: true");
+      expect(await fs.readFile(path.join(testDocsDir, "a.md"), "utf-8")).toBe(
+        original
+      );
+    });
+  });
+
+  describe("fixMetadata", () => {
+    const content = `---
+tags: [guide]
+---
+
+# Install Guide
+
+\`\`\`bash
+# not a heading
+\`\`\`
+
+This guide explains how to **install** the service
+from [npm](https://npmjs.com).
+
+## Next
+`;
+
+    it("should preview inferred values without writing by default", async () => {
+      await createSampleDocument(testDocsDir, "guides/install.md", content);
+
+      const result = await documentHandler.fixMetadata();
+
+      expect(result.metadata?.fixed).toEqual([
+        {
+          file: "guides/install.md",
+          filled: {
+            title: "Install Guide",
+            description:
+              "This guide explains how to install the service from npm.",
+            status: "draft",
+          },
+        },
+      ]);
+      expect(result.content[0].text).toContain("+title: Install Guide");
+      expect(
+        await fs.readFile(path.join(testDocsDir, "guides/install.md"), "utf-8")
+      ).toBe(content);
+    });
+
+    it("should only fill missing fields when writing", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "getting-started.md",
+        "---\ntitle: Start Here\n---\n\nNo heading here.\n"
+      );
+
+      await documentHandler.fixMetadata("", {
+        defaultStatus: "review",
+        dryRun: false,
+      });
+
+      expect(
+        await fs.readFile(path.join(testDocsDir, "getting-started.md"), "utf-8")
+      ).toBe(
+        "---\ntitle: Start Here\ndescription: No heading here.\nstatus: review\n---\n\nNo heading here.\n"
+      );
+    });
+
+    it("should fall back to the filename for the title", async () => {
+      await createSampleDocument(testDocsDir, "api-overview.md", "Text.\n");
+
+      const result = await documentHandler.fixMetadata("", {
+        requiredFields: ["title"],
+      });
+
+      expect(result.metadata?.fixed).toEqual([
+        { file: "api-overview.md", filled: { title: "Api Overview" } },
+      ]);
+    });
+  });
+
+  describe("validateLinks", () => {
+    it("should ignore code and report broken links with line numbers", async () => {
+      await createSampleDocument(testDocsDir, "target.md", "# Target\n");
+      await createSampleDocument(
+        testDocsDir,
+        "guide.md",
+        `# Guide
+
+[Target](target.md "Title") and [with anchor](target.md#target)
+
+\`\`\`markdown
+[Example](not-a-real-file.md)
+\`\`\`
+
+See the [reference][ref] and [missing](missing.md).
+
+[ref]: <gone.md>
+`
+      );
+
+      const result = await documentHandler.validateLinks();
+
+      expect(result.isError).toBeUndefined();
+      expect(result.metadata?.brokenLinks).toEqual([
+        { file: "guide.md", link: "missing.md", lineNumber: 9, column: 30 },
+        { file: "guide.md", link: "gone.md", lineNumber: 11, column: 1 },
+      ]);
+    });
+
+    it("should report missing anchors separately from broken links", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "target.md",
+        '# Target\n\n## Setup Steps\n\n<a id="custom"></a>\n'
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "guide.md",
+        `# Guide
+
+## Overview
+
+[ok](#overview) [ok](target.md#setup-steps) [ok](target.md#custom)
+[bad](#intro) [bad](target.md#setup)
+`
+      );
+
+      const result = await documentHandler.validateLinks();
+
+      expect(result.metadata?.brokenLinks).toEqual([]);
+      expect(result.metadata?.brokenAnchors).toEqual([
+        {
+          file: "guide.md",
+          link: "#intro",
+          anchor: "intro",
+          lineNumber: 6,
+          column: 1,
+        },
+        {
+          file: "guide.md",
+          link: "target.md#setup",
+          anchor: "setup",
+          lineNumber: 6,
+          column: 15,
+        },
+      ]);
+      expect(result.content[0].text).toBe("Found 2 missing anchors in 2 files");
+    });
+
+    it("should resolve wiki-links by path, file name and title", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "---\ntitle: Getting Started\n---\n\n# Setup\n\n## Linux\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        `# Home
+
+[[setup]] [[guides/setup#Linux|Linux]] [[Getting Started]] [[#Home]]
+[[Missing Page]] [[setup#Windows]] [[#^block-id]]
+`
+      );
+
+      const result = await documentHandler.validateLinks();
+
+      expect(result.metadata?.brokenLinks).toEqual([
+        {
+          file: "index.md",
+          link: "[[Missing Page]]",
+          lineNumber: 4,
+          column: 1,
+        },
+      ]);
+      expect(result.metadata?.brokenAnchors).toEqual([
+        {
+          file: "index.md",
+          link: "[[setup#Windows]]",
+          anchor: "windows",
+          lineNumber: 4,
+          column: 18,
+        },
+      ]);
+    });
+  });
+
+  describe("moveDocument", () => {
+    it("should rewrite relative links in the moved document", async () => {
+      await createSampleDocument(testDocsDir, "images/logo.png", "png");
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+      await createSampleDocument(
+        testDocsDir,
+        "guide.md",
+        "![Logo](images/logo.png) [Intro](./intro.md#top) [Root](/intro.md) [Self](#a)\n"
+      );
+
+      await documentHandler.moveDocument("guide.md", "guides/setup/guide.md");
+
+      expect(
+        await fs.readFile(
+          path.join(testDocsDir, "guides/setup/guide.md"),
+          "utf-8"
+        )
+      ).toBe(
+        "![Logo](../../images/logo.png) [Intro](../../intro.md#top) [Root](/intro.md) [Self](#a)\n"
+      );
+    });
+
+    it("should move private assets with the document", async () => {
+      await createSampleDocument(testDocsDir, "guide/diagram.png", "png");
+      await createSampleDocument(testDocsDir, "guide/shared.png", "png");
+      await createSampleDocument(
+        testDocsDir,
+        "guide/index.md",
+        '![Diagram](diagram.png) <img src="shared.png">\n'
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "other.md",
+        "![](guide/shared.png)\n"
+      );
+
+      const result = await documentHandler.moveDocument(
+        "guide/index.md",
+        "reference/index.md",
+        true,
+        true
+      );
+
+      expect(result.metadata?.movedAssets).toEqual([
+        { from: "guide/diagram.png", to: "reference/diagram.png" },
+      ]);
+      await expect(
+        fs.access(path.join(testDocsDir, "reference/diagram.png"))
+      ).resolves.toBeUndefined();
+      await expect(
+        fs.access(path.join(testDocsDir, "guide/shared.png"))
+      ).resolves.toBeUndefined();
+      expect(
+        await fs.readFile(path.join(testDocsDir, "reference/index.md"), "utf-8")
+      ).toBe('![Diagram](diagram.png) <img src="../guide/shared.png">\n');
+    });
+
+    it("should update links to the moved document outside code", async () => {
+      await createSampleDocument(testDocsDir, "old.md", "# Old\n");
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "[Old](old.md#intro)\n\n```\n[Old](old.md)\n```\n"
+      );
+
+      const result = await documentHandler.moveDocument("old.md", "new.md");
+
+      expect(result.isError).toBeUndefined();
+      const index = await fs.readFile(
+        path.join(testDocsDir, "index.md"),
+        "utf-8"
+      );
+      expect(index).toBe("[Old](new.md#intro)\n\n```\n[Old](old.md)\n```\n");
+    });
+
+    it("should resolve links relative to the file that contains them", async () => {
+      await createSampleDocument(testDocsDir, "guides/setup.md", "# Setup\n");
+      await createSampleDocument(
+        testDocsDir,
+        "reference/api.md",
+        "See [setup](../guides/setup.md?tab=linux#install) and [again](./../guides/setup.md).\n" +
+          "The file guides/setup.md is mentioned in prose.\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "guides/index.md",
+        "[Setup](./setup.md#top) [Setup](setup.md)\n"
+      );
+
+      const result = await documentHandler.moveDocument(
+        "guides/setup.md",
+        "start/install/setup.md"
+      );
+
+      expect(result.metadata?.updatedFiles).toEqual([
+        "guides/index.md",
+        "reference/api.md",
+      ]);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "reference/api.md"), "utf-8")
+      ).toBe(
+        "See [setup](../start/install/setup.md?tab=linux#install) and [again](../start/install/setup.md).\n" +
+          "The file guides/setup.md is mentioned in prose.\n"
+      );
+      expect(
+        await fs.readFile(path.join(testDocsDir, "guides/index.md"), "utf-8")
+      ).toBe(
+        "[Setup](../start/install/setup.md#top) [Setup](../start/install/setup.md)\n"
+      );
+    });
+
+    it("should preview the changes of each file in dry-run", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guide.md",
+        "# Guide\n\n[Home](index.md)\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "[Guide](guide.md)\n"
+      );
+
+      const result = await documentHandler.moveDocument(
+        "guide.md",
+        "guides/guide.md",
+        true,
+        false,
+        undefined,
+        true
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(result.metadata?.dryRun).toBe(true);
+      expect(result.metadata?.updatedFiles).toEqual(["index.md"]);
+      const text = result.content[0].text;
+      expect(text).toContain("--- guide.md\toriginal");
+      expect(text).toContain("+++ guides/guide.md\tmodified");
+      expect(text).toContain("+[Home](../index.md)");
+      expect(text).toContain("-[Guide](guide.md)\n+[Guide](guides/guide.md)");
+      expect(
+        await fs.readFile(path.join(testDocsDir, "guide.md"), "utf-8")
+      ).toBe("# Guide\n\n[Home](index.md)\n");
+      await expect(
+        fs.access(path.join(testDocsDir, "guides"))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("getDocumentOutline", () => {
+    it("should return the heading tree with line ranges", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guide/install.md",
+        `---
+title: Install
+---
+
+# Installation
+
+Intro text.
+
+## Linux
+
+Use apt.
+
+## macOS
+
+Use brew.
+
+\`\`\`bash
+# not a heading
+\`\`\`
+`
+      );
+      await createSampleDocument(testDocsDir, "guide/faq.md", "No headings\n");
+
+      const result = await documentHandler.getDocumentOutline("guide");
+
+      expect(result.isError).toBeUndefined();
+      const [faq, install] = result.metadata?.documents;
+      expect(faq).toMatchObject({ path: "guide/faq.md", outline: [] });
+      expect(install.path).toBe(path.join("guide", "install.md"));
+      expect(install.outline).toMatchObject([
+        {
+          level: 1,
+          text: "Installation",
+          slug: "installation",
+          startLine: 5,
+          endLine: 19,
+          children: [
+            { text: "Linux", slug: "linux", startLine: 9, endLine: 11 },
+            { text: "macOS", slug: "macos", startLine: 13, endLine: 19 },
+          ],
+        },
+      ]);
+      expect(install.outline[0].children[0].wordCount).toBe(4);
+      expect(install.outline[0].children[0].tokenEstimate).toBeGreaterThan(0);
+      expect(result.content[0].text).toContain(
+        "  - Linux [#linux] lines 9-11, 4 words"
+      );
+    });
+
+    it("should return an error for a missing document", async () => {
+      const result = await documentHandler.getDocumentOutline("missing.md");
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "Error getting document outline"
+      );
+    });
+  });
+
+  describe("editSection", () => {
+    const doc = `# Guide
+
+Intro.
+
+## Install
+
+Old steps.
+
+### Linux
+
+apt install docs
+
+## Usage
+
+Run it.
+`;
+
+    const readGuide = () =>
+      fs.readFile(path.join(testDocsDir, "guide.md"), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(testDocsDir, "guide.md", doc);
+    });
+
+    it("should replace a section body and keep the heading", async () => {
+      const result = await documentHandler.editSection(
+        "guide.md",
+        "Guide > Install",
+        "replace",
+        "New steps.\n"
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain("-Old steps.");
+      expect(result.content[0].text).toContain("+New steps.");
+      expect(await readGuide()).toBe(
+        "# Guide\n\nIntro.\n\n## Install\n\nNew steps.\n\n## Usage\n\nRun it.\n"
+      );
+    });
+
+    it("should append before subsections and insert after the section", async () => {
+      await documentHandler.editSection(
+        "guide.md",
+        "#install",
+        "append",
+        "More steps."
+      );
+      await documentHandler.editSection(
+        "guide.md",
+        "#install",
+        "insert_after",
+        "## Configure\n\nEdit the file."
+      );
+
+      expect(await readGuide()).toBe(`# Guide
+
+Intro.
+
+## Install
+
+Old steps.
+
+More steps.
+
+### Linux
+
+apt install docs
+
+## Configure
+
+Edit the file.
+
+## Usage
+
+Run it.
+`);
+    });
+
+    it("should insert before and delete sections", async () => {
+      await documentHandler.editSection(
+        "guide.md",
+        "Usage",
+        "insert_before",
+        "## Notes\n\nRead first."
+      );
+      await documentHandler.editSection("guide.md", "Install", "delete");
+      await documentHandler.editSection("guide.md", "#usage", "delete");
+
+      expect(await readGuide()).toBe(
+        "# Guide\n\nIntro.\n\n## Notes\n\nRead first.\n"
+      );
+    });
+
+    it("should not write the file in dry-run mode", async () => {
+      const result = await documentHandler.editSection(
+        "guide.md",
+        "#linux",
+        "delete",
+        "",
+        true
+      );
+
+      expect(result.content[0].text).toContain("-### Linux");
+      expect(result.metadata).toMatchObject({
+        dryRun: true,
+        section: { slug: "linux", startLine: 9, endLine: 11 },
+      });
+      expect(await readGuide()).toBe(doc);
+    });
+
+    it("should return an error for an unknown section", async () => {
+      const result = await documentHandler.editSection(
+        "guide.md",
+        "Windows",
+        "append",
+        "text"
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        "Error editing section: Section not found: Windows"
+      );
+    });
+  });
+
+  describe("wiki-links", () => {
+    it("should rewrite wiki-links when a document is renamed", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "---\ntitle: setup\n---\n\n# Setup\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "[[setup]] [[setup#Install|install it]] [[guides/setup]] [[other]]\n"
+      );
+
+      const result = await documentHandler.renameDocument(
+        "guides/setup.md",
+        "install"
+      );
+
+      expect(result.metadata?.referencesUpdated).toBe(1);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "index.md"), "utf-8")
+      ).toBe(
+        "[[install]] [[install#Install|install it]] [[install]] [[other]]\n"
+      );
+    });
+
+    it("should convert wiki-links to markdown links and back", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "# Setup\n\n## Linux Install\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "[[setup]], [[setup#Linux Install|on Linux]] and [[Nowhere]]\n"
+      );
+
+      const toMarkdown = await documentHandler.convertLinks("markdown");
+      const indexPath = path.join(testDocsDir, "index.md");
+
+      expect(toMarkdown.metadata?.convertedCount).toBe(2);
+      expect(toMarkdown.content[0].text).toContain(
+        "- index.md:1 [[Nowhere]]: target not found"
+      );
+      expect(await fs.readFile(indexPath, "utf-8")).toBe(
+        "[setup](guides/setup.md), [on Linux](guides/setup.md#linux-install) and [[Nowhere]]\n"
+      );
+
+      await documentHandler.convertLinks("wiki", "index.md");
+
+      expect(await fs.readFile(indexPath, "utf-8")).toBe(
+        "[[setup]], [[setup#Linux Install|on Linux]] and [[Nowhere]]\n"
+      );
+    });
+
+    it("should not write files in dry-run mode", async () => {
+      await createSampleDocument(testDocsDir, "a.md", "# A\n");
+      await createSampleDocument(testDocsDir, "b.md", "[A](a.md)\n");
+
+      const result = await documentHandler.convertLinks("wiki", "b.md", true);
+
+      expect(result.content[0].text).toContain("+[[a|A]]");
+      expect(await fs.readFile(path.join(testDocsDir, "b.md"), "utf-8")).toBe(
+        "[A](a.md)\n"
+      );
+    });
+  });
+
+  describe("findUnusedAssets", () => {
+    it("should report assets that nothing references", async () => {
+      await createSampleDocument(testDocsDir, "images/used.png", "png");
+      await createSampleDocument(testDocsDir, "images/embedded.png", "png");
+      await createSampleDocument(testDocsDir, "images/unused.png", "unused");
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "![Used](images/used.png) ![[embedded.png]]\n\n```\n![](images/unused.png)\n```\n"
+      );
+
+      const result = await documentHandler.findUnusedAssets();
+
+      expect(result.metadata).toMatchObject({
+        unusedAssets: [{ path: "images/unused.png", size: 6 }],
+        assetsChecked: 3,
+      });
+    });
+
+    it("should not report the service's own files", async () => {
+      await createSampleDocument(testDocsDir, "index.md", "# Index\n");
+      await createSampleDocument(testDocsDir, "navigation.json", "[]");
+      await createSampleDocument(testDocsDir, "redirects.json", "{}");
+      await createSampleDocument(testDocsDir, "frontmatter.schema.json", "{}");
+
+      const result = await documentHandler.findUnusedAssets();
+
+      expect(result.metadata).toMatchObject({
+        unusedAssets: [],
+        assetsChecked: 0,
+      });
+    });
+  });
+
+  describe("replaceAcrossDocuments", () => {
+    const doc = `# Acme Docs
+
+Install Acme 1.2.0 from https://old.example.com/acme.
+
+\`\`\`bash
+npm install acme@1.2.0
+\`\`\`
+`;
+
+    const readDoc = (file: string) =>
+      fs.readFile(path.join(testDocsDir, file), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(testDocsDir, "guides/install.md", doc);
+      await createSampleDocument(testDocsDir, "other.md", "Acme 1.2.0\n");
+    });
+
+    it("should preview a literal replacement without writing by default", async () => {
+      const result = await documentHandler.replaceAcrossDocuments(
+        "Acme",
+        "Widget"
+      );
+
+      expect(result.metadata).toMatchObject({
+        dryRun: true,
+        totalMatches: 3,
+        files: [
+          { path: path.join("guides", "install.md"), matches: 2 },
+          { path: "other.md", matches: 1 },
+        ],
+      });
+      expect(result.content[0].text).toContain("+# Widget Docs");
+      expect(result.content[0].text).toContain("+++ other.md");
+      expect(await readDoc("guides/install.md")).toBe(doc);
+    });
+
+    it("should use capture groups and only touch code blocks", async () => {
+      await documentHandler.replaceAcrossDocuments(
+        "acme@(\\d+)\\.(\\d+)\\.\\d+",
+        "acme@$1.$2.1",
+        { regex: true, codeBlocks: "only", target: "guides", dryRun: false }
+      );
+
+      const updated = await readDoc("guides/install.md");
+      expect(updated).toContain("npm install acme@1.2.1");
+      expect(updated).toContain("Install Acme 1.2.0");
+    });
+
+    it("should skip code blocks and replace literally", async () => {
+      await documentHandler.replaceAcrossDocuments("1.2.0", "$2.0.0", {
+        codeBlocks: "skip",
+        dryRun: false,
+      });
+
+      const updated = await readDoc("guides/install.md");
+      expect(updated).toContain("Install Acme $2.0.0");
+      expect(updated).toContain("npm install acme@1.2.0");
+      expect(await readDoc("other.md")).toBe("Acme $2.0.0\n");
+    });
+
+    it("should report invalid regular expressions", async () => {
+      const result = await documentHandler.replaceAcrossDocuments("(", "", {
+        regex: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Invalid regular expression");
+    });
+
+    it("should reject patterns that match empty text", async () => {
+      const result = await documentHandler.replaceAcrossDocuments("x*", "-", {
+        regex: true,
+        dryRun: false,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("matches empty text");
+
+      const lookahead = await documentHandler.replaceAcrossDocuments(
+        "(?=Acme)",
+        "-",
+        { regex: true, dryRun: false }
+      );
+
+      expect(lookahead.isError).toBe(true);
+      expect(lookahead.content[0].text).toContain("matches empty text in");
+      expect(await readDoc("guides/install.md")).toBe(doc);
+      expect(await readDoc("other.md")).toBe("Acme 1.2.0\n");
+    });
+  });
+
+  describe("expectedHash", () => {
+    beforeEach(async () => {
+      await createSampleDocument(testDocsDir, "doc.md", "# Doc\n\nFirst\n");
+    });
+
+    it("should apply changes when the hash matches", async () => {
+      const read = await documentHandler.readDocument("doc.md");
+      const hash = read.metadata?.hash;
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+
+      const edit = await documentHandler.editDocument(
+        "doc.md",
+        [{ oldText: "First", newText: "Second" }],
+        false,
+        hash
+      );
+      expect(edit.isError).toBeFalsy();
+      expect(edit.metadata?.hash).not.toBe(hash);
+
+      const write = await documentHandler.writeDocument(
+        "doc.md",
+        "# Doc\n\nThird\n",
+        true,
+        edit.metadata?.hash
+      );
+      expect(write.isError).toBeFalsy();
+    });
+
+    it("should reject stale writes with a diff of the changes", async () => {
+      const read = await documentHandler.readDocument("doc.md");
+      await fs.writeFile(
+        path.join(testDocsDir, "doc.md"),
+        "# Doc\n\nChanged elsewhere\n"
+      );
+
+      const result = await documentHandler.writeDocument(
+        "doc.md",
+        "# Doc\n\nMine\n",
+        true,
+        read.metadata?.hash
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Conflict: doc.md has changed");
+      expect(result.content[0].text).toContain("-First");
+      expect(result.content[0].text).toContain("+Changed elsewhere");
+      expect(await fs.readFile(path.join(testDocsDir, "doc.md"), "utf-8")).toBe(
+        "# Doc\n\nChanged elsewhere\n"
+      );
+    });
+
+    it("should reject stale edits, moves and renames", async () => {
+      const stale = "0".repeat(64);
+
+      const edit = await documentHandler.editDocument(
+        "doc.md",
+        [{ oldText: "First", newText: "Second" }],
+        false,
+        stale
+      );
+      const move = await documentHandler.moveDocument(
+        "doc.md",
+        "moved.md",
+        true,
+        false,
+        stale
+      );
+      const rename = await documentHandler.renameDocument(
+        "doc.md",
+        "renamed",
+        true,
+        stale
+      );
+
+      for (const result of [edit, move, rename]) {
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain("Conflict");
+      }
+      await expect(
+        fs.access(path.join(testDocsDir, "doc.md"))
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("batchOperations", () => {
+    const readDoc = (docPath: string) =>
+      fs.readFile(path.join(testDocsDir, docPath), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "See [intro](intro.md).\n"
+      );
+    });
+
+    it("should apply every operation in order", async () => {
+      const result = await documentHandler.batchOperations([
+        {
+          tool: "create_documentation_folder",
+          path: "guides",
+          createReadme: false,
+        },
+        {
+          tool: "move_document",
+          sourcePath: "intro.md",
+          destinationPath: "guides/intro.md",
+          updateReferences: true,
+          moveAssets: false,
+        },
+        {
+          tool: "write_document",
+          path: "guides/setup.md",
+          content: "# Setup\n",
+          createDirectories: true,
+        },
+      ]);
+
+      expect(result.isError).toBeFalsy();
+      expect(
+        result.metadata?.results.map((r: { status: string }) => r.status)
+      ).toEqual(["applied", "applied", "applied"]);
+      expect(result.metadata?.changedFiles).toEqual([
+        "guides/intro.md",
+        "guides/setup.md",
+        "index.md",
+        "intro.md",
+        "redirects.json",
+      ]);
+      expect(await readDoc("index.md")).toBe("See [intro](guides/intro.md).\n");
+    });
+
+    it("should restore the original files when an operation fails", async () => {
+      const result = await documentHandler.batchOperations([
+        {
+          tool: "move_document",
+          sourcePath: "intro.md",
+          destinationPath: "guides/intro.md",
+          updateReferences: true,
+          moveAssets: false,
+        },
+        {
+          tool: "write_document",
+          path: "guides/setup.md",
+          content: "# Setup\n",
+          createDirectories: true,
+        },
+        {
+          tool: "edit_document",
+          path: "index.md",
+          edits: [{ oldText: "missing text", newText: "x" }],
+          dryRun: false,
+        },
+        { tool: "delete_document", path: "index.md" },
+      ]);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "operation 3 (edit_document) failed"
+      );
+      expect(
+        result.metadata?.results.map((r: { status: string }) => r.status)
+      ).toEqual(["rolled_back", "rolled_back", "failed", "skipped"]);
+
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+      expect(await readDoc("index.md")).toBe("See [intro](intro.md).\n");
+      await expect(
+        fs.access(path.join(testDocsDir, "guides"))
+      ).rejects.toThrow();
+    });
+
+    it("should roll back when a frontmatter change fails on a document", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "bad.md",
+        "---\nbad: [unclosed\n---\n\n# Bad\n"
+      );
+
+      const result = await documentHandler.batchOperations([
+        {
+          tool: "write_document",
+          path: "new.md",
+          content: "# New\n",
+          createDirectories: true,
+        },
+        {
+          tool: "update_frontmatter",
+          path: "*.md",
+          operations: [{ op: "set", key: "status", value: "draft" }],
+          dryRun: false,
+        },
+      ]);
+
+      expect(result.isError).toBe(true);
+      expect(
+        result.metadata?.results.map((r: { status: string }) => r.status)
+      ).toEqual(["rolled_back", "failed"]);
+      expect(result.content[0].text).toContain("- bad.md:");
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+      await expect(
+        fs.access(path.join(testDocsDir, "new.md"))
+      ).rejects.toThrow();
+    });
+
+    it("should not apply anything when an operation is invalid", async () => {
+      const result = await documentHandler.batchOperations([
+        { tool: "delete_document", path: "intro.md" },
+        {
+          tool: "write_document",
+          path: "../outside.md",
+          content: "",
+          createDirectories: true,
+        },
+      ]);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("2. write_document");
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+    });
+  });
+
+  describe("change journal", () => {
+    const readDoc = (docPath: string) =>
+      fs.readFile(path.join(testDocsDir, docPath), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+    });
+
+    it("should record changes and undo and redo them", async () => {
+      await documentHandler.writeDocument("intro.md", "# Intro\n\nMore\n");
+      await documentHandler.readDocument("intro.md");
+
+      const list = await documentHandler.listChanges();
+      expect(list.metadata?.changes).toMatchObject([
+        { id: 1, tool: "write_document", files: ["intro.md"], undone: false },
+      ]);
+
+      const undo = await documentHandler.undoChange();
+      expect(undo.isError).toBeFalsy();
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+
+      const redo = await documentHandler.redoChange();
+      expect(redo.isError).toBeFalsy();
+      expect(await readDoc("intro.md")).toBe("# Intro\n\nMore\n");
+    });
+
+    it("should undo everything since a checkpoint", async () => {
+      await documentHandler.createCheckpoint("before restructure");
+      await documentHandler.createFolder("guides/setup", false);
+      await documentHandler.moveDocument("intro.md", "guides/setup/intro.md");
+      await documentHandler.writeDocument("new.md", "# New\n");
+
+      const result = await documentHandler.undoChange({
+        checkpoint: "before restructure",
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.metadata?.undone).toEqual([2, 3, 4]);
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+      await expect(
+        fs.access(path.join(testDocsDir, "new.md"))
+      ).rejects.toThrow();
+      await expect(
+        fs.access(path.join(testDocsDir, "guides"))
+      ).rejects.toThrow();
+    });
+
+    it("should refuse to undo over later edits unless forced", async () => {
+      await documentHandler.writeDocument("intro.md", "# Mine\n");
+      await fs.writeFile(path.join(testDocsDir, "intro.md"), "# Theirs\n");
+
+      const result = await documentHandler.undoChange({ id: 1 });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Conflict: intro.md");
+      expect(await readDoc("intro.md")).toBe("# Theirs\n");
+
+      await documentHandler.undoChange({ id: 1, force: true });
+      expect(await readDoc("intro.md")).toBe("# Intro\n");
+    });
+
+    it("should record a batch as one change", async () => {
+      await documentHandler.batchOperations([
+        {
+          tool: "write_document",
+          path: "a.md",
+          content: "a",
+          createDirectories: true,
+        },
+        {
+          tool: "write_document",
+          path: "b.md",
+          content: "b",
+          createDirectories: true,
+        },
+      ]);
+
+      const list = await documentHandler.listChanges();
+      expect(list.metadata?.changes).toMatchObject([
+        { tool: "batch_operations", files: ["a.md", "b.md"] },
+      ]);
+    });
+
+    it("should record overlapping calls as separate changes", async () => {
+      await Promise.all([
+        documentHandler.writeDocument("a.md", "a"),
+        documentHandler.writeDocument("b.md", "b"),
+      ]);
+
+      const list = await documentHandler.listChanges();
+      expect(list.metadata?.changes).toMatchObject([
+        { id: 2, files: ["b.md"] },
+        { id: 1, files: ["a.md"] },
+      ]);
+
+      await documentHandler.undoChange({ id: 1 });
+      await expect(fs.access(path.join(testDocsDir, "a.md"))).rejects.toThrow();
+      expect(await readDoc("b.md")).toBe("b");
+    });
+
+    it("should not roll back changes made alongside a failed batch", async () => {
+      const [batch, write] = await Promise.all([
+        documentHandler.batchOperations([
+          {
+            tool: "write_document",
+            path: "a.md",
+            content: "a",
+            createDirectories: true,
+          },
+          {
+            tool: "edit_document",
+            path: "intro.md",
+            edits: [{ oldText: "missing text", newText: "x" }],
+            dryRun: false,
+          },
+        ]),
+        documentHandler.writeDocument("b.md", "b"),
+      ]);
+
+      expect(batch.isError).toBe(true);
+      expect(write.isError).toBeFalsy();
+      await expect(fs.access(path.join(testDocsDir, "a.md"))).rejects.toThrow();
+      expect(await readDoc("b.md")).toBe("b");
+    });
+
+    it("should not journal files written outside the docs directory", async () => {
+      const outputDir = await fs.mkdtemp(
+        path.join(os.tmpdir(), "mcp-docs-output-")
+      );
+      try {
+        await documentHandler.writeDocument("intro.md", "# Changed\n");
+        const consolidated =
+          await documentHandler.generateConsolidatedDocumentation("", {
+            outputPath: path.join(outputDir, "all.md"),
+          });
+        expect(consolidated.isError).toBeFalsy();
+
+        const undo = await documentHandler.undoChange();
+        expect(undo.isError).toBeFalsy();
+        expect(undo.metadata?.undone).toEqual([1]);
+        expect(await readDoc("intro.md")).toBe("# Intro\n");
+        await fs.access(path.join(outputDir, "all.md"));
+      } finally {
+        await fs.rm(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should skip unreadable journal entries", async () => {
+      await documentHandler.writeDocument("intro.md", "# One\n");
+      await fs.writeFile(
+        path.join(testDocsDir, ".mcp-docs/journal/000002.json"),
+        "{ not json"
+      );
+      await documentHandler.writeDocument("intro.md", "# Three\n");
+
+      const list = await documentHandler.listChanges();
+      expect(list.isError).toBeFalsy();
+      expect(
+        list.metadata?.changes.map((change: { id: number }) => change.id)
+      ).toEqual([3, 1]);
+      expect(list.metadata?.unreadable).toEqual(["000002.json"]);
+      expect(list.content[0].text).toContain(
+        "Skipped 1 unreadable journal entries: 000002.json"
+      );
+
+      const undo = await documentHandler.undoChange();
+      expect(undo.isError).toBeFalsy();
+      expect(await readDoc("intro.md")).toBe("# One\n");
+    });
+  });
+
+  describe("applyPatch", () => {
+    const readDoc = (docPath: string) =>
+      fs.readFile(path.join(testDocsDir, docPath), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guide.md",
+        "# Guide\n\nIntro\n\n## Install\n\nRun npm install.\n\n## Usage\n\nRun it.\n"
+      );
+    });
+
+    it("should apply a multi-file diff even when lines have moved", async () => {
+      await fs.writeFile(
+        path.join(testDocsDir, "guide.md"),
+        "# Guide\n\nNew intro paragraph.\n\nIntro\n\n## Install\n\nRun npm install.\n\n## Usage\n\nRun it.\n"
+      );
+
+      const patch = `diff --git a/guide.md b/guide.md
+--- a/guide.md
++++ b/guide.md
+@@ -5,3 +5,3 @@
+ ## Install
+ 
+-Run npm install.
++Run pnpm install.
+--- /dev/null
++++ b/notes/new.md
+@@ -0,0 +1,2 @@
++# New
++
+`;
+
+      const result = await documentHandler.applyPatch(patch);
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain(
+        "hunk 1 applied at line 7 (offset 2 lines)"
+      );
+      expect(await readDoc("guide.md")).toContain("Run pnpm install.");
+      expect(await readDoc("notes/new.md")).toBe("# New\n\n");
+    });
+
+    it("should report failed hunks without writing anything", async () => {
+      const patch = `--- guide.md
++++ guide.md
+@@ -1,3 +1,3 @@
+ # Guide
+ 
+-Intro
++Introduction
+@@ -9,3 +9,3 @@
+ ## Usage
+ 
+-Run something else.
++Run it now.
+`;
+
+      const result = await documentHandler.applyPatch(patch);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "guide.md: hunk 2 @@ -9,3 +9,3 @@ failed"
+      );
+      expect(result.content[0].text).toContain("Run something else.");
+      expect(await readDoc("guide.md")).toContain("Intro\n");
+      expect(await readDoc("guide.md")).not.toContain("Introduction");
+    });
+
+    it("should tolerate changed outer context with fuzz", async () => {
+      const patch = `--- guide.md
++++ guide.md
+@@ -9,3 +9,3 @@
+ ## How to use
+ 
+-Run it.
++Run it now.
+`;
+
+      const strict = await documentHandler.applyPatch(patch, true, 0);
+      expect(strict.isError).toBe(true);
+
+      const fuzzy = await documentHandler.applyPatch(patch, true);
+      expect(fuzzy.isError).toBeFalsy();
+      expect(fuzzy.content[0].text).toContain("fuzz 1");
+      expect(fuzzy.content[0].text).toContain("+Run it now.");
+      expect(await readDoc("guide.md")).toContain("Run it.\n");
+    });
+
+    it("should reject paths outside the docs directory", async () => {
+      const result = await documentHandler.applyPatch(`--- /dev/null
++++ ../outside.md
+@@ -0,0 +1 @@
++oops
+`);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Access denied");
+    });
+  });
+
+  describe("deleteDocument", () => {
+    const exists = (docPath: string) =>
+      fs
+        .access(path.join(testDocsDir, docPath))
+        .then(() => true)
+        .catch(() => false);
+
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "---\ntitle: Setup\n---\n\n# Setup\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "Start with [setup](guides/setup.md) or [[Setup]].\n"
+      );
+      await fs.writeFile(
+        path.join(testDocsDir, "navigation.json"),
+        JSON.stringify([
+          {
+            title: "guides",
+            path: "guides",
+            order: 0,
+            children: [
+              {
+                title: "Setup",
+                path: "guides/setup.md",
+                order: 1,
+                children: [],
+              },
+            ],
+          },
+        ])
+      );
+    });
+
+    it("should move the document to the trash and warn about broken references", async () => {
+      const result = await documentHandler.deleteDocument("guides/setup.md");
+
+      expect(result.isError).toBeFalsy();
+      expect(await exists("guides/setup.md")).toBe(false);
+      expect(result.metadata?.inboundLinks).toEqual([
+        { file: "index.md", line: 1, url: "guides/setup.md" },
+        { file: "index.md", line: 1, url: "Setup" },
+      ]);
+      expect(result.content[0].text).toContain("- guides > Setup");
+
+      const trash = await documentHandler.listTrash();
+      expect(trash.metadata?.entries).toMatchObject([
+        {
+          id: result.metadata?.trashId,
+          originalPath: "guides/setup.md",
+          title: "Setup",
+        },
+      ]);
+    });
+
+    it("should restore trashed documents without overwriting", async () => {
+      const deleted = await documentHandler.deleteDocument("guides/setup.md");
+      await createSampleDocument(testDocsDir, "guides/setup.md", "# New\n");
+
+      const refused = await documentHandler.restoreDocument("guides/setup.md");
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0].text).toContain("already exists");
+
+      const restored = await documentHandler.restoreDocument(
+        deleted.metadata?.trashId,
+        "guides/setup-old.md"
+      );
+      expect(restored.isError).toBeFalsy();
+      expect(
+        await fs.readFile(
+          path.join(testDocsDir, "guides/setup-old.md"),
+          "utf-8"
+        )
+      ).toContain("title: Setup");
+      expect((await documentHandler.listTrash()).metadata?.entries).toEqual([]);
+    });
+
+    it("should empty the trash and delete permanently on request", async () => {
+      await documentHandler.deleteDocument("guides/setup.md");
+      await documentHandler.deleteDocument("index.md", true);
+
+      const emptied = await documentHandler.emptyTrash();
+      expect(emptied.metadata?.removed).toEqual(["guides/setup.md"]);
+      expect((await documentHandler.listTrash()).metadata?.entries).toEqual([]);
+      expect(await exists("index.md")).toBe(false);
+    });
+  });
+
+  describe("copyDocument", () => {
+    const readDoc = (docPath: string) =>
+      fs.readFile(path.join(testDocsDir, docPath), "utf-8");
+
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "migration/v1.md",
+        `---
+title: V1 Migration
+date: 2024-01-01
+status: published
+order: 3
+tags:
+  - migration
+---
+
+# V1 Migration
+
+See [setup](../setup.md) and [steps](#steps).
+
+## Steps
+`
+      );
+    });
+
+    it("should copy a document whose frontmatter cannot be parsed", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "bad.md",
+        "---\nbad: [unclosed\n---\n\n# Bad\n"
+      );
+
+      const result = await documentHandler.copyDocument("bad.md", "copy.md", {
+        title: "Copy",
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.metadata?.resetFields).toEqual([]);
+      expect(await readDoc("copy.md")).toBe(
+        "---\nbad: [unclosed\n---\n\n# Copy\n"
+      );
+    });
+
+    it("should use a title with dollar signs as it is", async () => {
+      const result = await documentHandler.copyDocument(
+        "migration/v1.md",
+        "costs.md",
+        { title: "Costs $1 and $& more" }
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(await readDoc("costs.md")).toContain("\n# Costs $1 and $& more\n");
+    });
+
+    it("should copy with a new title, reset fields and rewritten links", async () => {
+      const result = await documentHandler.copyDocument(
+        "migration/v1.md",
+        "guides/v2.md",
+        { title: "V2 Migration" }
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(result.metadata?.resetFields).toEqual(["date", "status", "order"]);
+
+      const copy = await readDoc("guides/v2.md");
+      const today = new Date().toISOString().split("T")[0];
+      expect(copy).toContain("title: V2 Migration");
+      expect(copy).toContain(`date: ${today}`);
+      expect(copy).toContain("status: draft");
+      expect(copy).not.toContain("order:");
+      expect(copy).toContain("  - migration");
+      expect(copy).toContain("# V2 Migration");
+      expect(copy).toContain("[setup](../setup.md) and [steps](#steps)");
+      expect(await readDoc("migration/v1.md")).toContain("# V1 Migration");
+    });
+
+    it("should rewrite relative links for a different folder depth", async () => {
+      await documentHandler.copyDocument("migration/v1.md", "v2.md", {
+        resetFields: [],
+      });
+
+      const copy = await readDoc("v2.md");
+      expect(copy).toContain("[setup](setup.md)");
+      expect(copy).toContain("status: published");
+    });
+
+    it("should refuse to overwrite unless asked", async () => {
+      await createSampleDocument(testDocsDir, "v2.md", "# Existing\n");
+
+      const refused = await documentHandler.copyDocument(
+        "migration/v1.md",
+        "v2.md"
+      );
+      expect(refused.isError).toBe(true);
+      expect(await readDoc("v2.md")).toBe("# Existing\n");
+
+      const replaced = await documentHandler.copyDocument(
+        "migration/v1.md",
+        "v2.md",
+        { overwrite: true }
+      );
+      expect(replaced.isError).toBeFalsy();
+      expect(await readDoc("v2.md")).toContain("# V1 Migration");
+    });
+  });
+
+  describe("folder operations", () => {
+    const readDoc = (docPath: string) =>
+      fs.readFile(path.join(testDocsDir, docPath), "utf-8");
+    const exists = (docPath: string) =>
+      fs
+        .access(path.join(testDocsDir, docPath))
+        .then(() => true)
+        .catch(() => false);
+
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "# Setup\n\nSee [usage](advanced/usage.md), [home](../index.md) and ![diagram](img/flow.png).\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "guides/advanced/usage.md",
+        "# Usage\n\nBack to [setup](../setup.md#install).\n"
+      );
+      await createSampleDocument(testDocsDir, "guides/img/flow.png", "png");
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "Read [setup](guides/setup.md), [usage](./guides/advanced/usage.md?v=1#top) and [[guides/setup]].\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "reference/api.md",
+        "See [the guides](../guides/) and [usage](../guides/advanced/usage.md).\n"
+      );
+      await fs.writeFile(
+        path.join(testDocsDir, "navigation.json"),
+        JSON.stringify([
+          {
+            title: "guides",
+            path: "guides",
+            order: 0,
+            children: [
+              {
+                title: "Setup",
+                path: "guides/setup.md",
+                order: 1,
+                children: [],
+              },
+            ],
+          },
+        ])
+      );
+    });
+
+    it("should rewrite links in moved documents without updating references", async () => {
+      const result = await documentHandler.moveFolder(
+        "guides",
+        "learn/tutorials",
+        false
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(result.metadata?.updatedFiles).toEqual([]);
+      expect(await readDoc("learn/tutorials/setup.md")).toContain(
+        "[usage](advanced/usage.md), [home](../../index.md) and ![diagram](img/flow.png)"
+      );
+      expect(await readDoc("reference/api.md")).toBe(
+        "See [the guides](../guides/) and [usage](../guides/advanced/usage.md).\n"
+      );
+    });
+
+    it("should move a folder and rewrite links and navigation in one pass", async () => {
+      const result = await documentHandler.moveFolder(
+        "guides",
+        "learn/tutorials"
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(await exists("guides")).toBe(false);
+      expect(result.metadata?.movedFiles).toHaveLength(3);
+      expect(result.metadata?.updatedFiles).toEqual([
+        "index.md",
+        "reference/api.md",
+      ]);
+      expect(result.metadata?.navigationEntriesUpdated).toBe(2);
+
+      expect(await readDoc("learn/tutorials/setup.md")).toContain(
+        "[usage](advanced/usage.md), [home](../../index.md) and ![diagram](img/flow.png)"
+      );
+      expect(await readDoc("learn/tutorials/advanced/usage.md")).toContain(
+        "[setup](../setup.md#install)"
+      );
+      expect(await readDoc("index.md")).toBe(
+        "Read [setup](learn/tutorials/setup.md), [usage](./learn/tutorials/advanced/usage.md?v=1#top) and [[setup]].\n"
+      );
+      expect(await readDoc("reference/api.md")).toBe(
+        "See [the guides](../learn/tutorials/) and [usage](../learn/tutorials/advanced/usage.md).\n"
+      );
+
+      const navigation = JSON.parse(await readDoc("navigation.json"));
+      expect(navigation[0]).toMatchObject({
+        title: "tutorials",
+        path: "learn/tutorials",
+        children: [{ title: "Setup", path: "learn/tutorials/setup.md" }],
+      });
+    });
+
+    it("should rename a folder in place", async () => {
+      const result = await documentHandler.renameFolder("guides", "tutorials");
+
+      expect(result.isError).toBeFalsy();
+      expect(await exists("tutorials/advanced/usage.md")).toBe(true);
+      expect(await readDoc("reference/api.md")).toContain(
+        "[the guides](../tutorials/)"
+      );
+    });
+
+    it("should refuse to move a folder onto an existing path", async () => {
+      const result = await documentHandler.moveFolder("guides", "reference");
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("already exists");
+      expect(await exists("guides/setup.md")).toBe(true);
+    });
+
+    it("should delete a folder to the trash and restore it", async () => {
+      const deleted = await documentHandler.deleteFolder("guides");
+
+      expect(deleted.isError).toBeFalsy();
+      expect(await exists("guides")).toBe(false);
+      expect(deleted.metadata?.deletedFiles).toHaveLength(3);
+      expect(
+        deleted.metadata?.inboundLinks.map(
+          (link: { file: string }) => link.file
+        )
+      ).toEqual([
+        "index.md",
+        "index.md",
+        "index.md",
+        "reference/api.md",
+        "reference/api.md",
+      ]);
+      expect(deleted.content[0].text).toContain("- guides > Setup");
+
+      const restored = await documentHandler.restoreDocument("guides");
+      expect(restored.isError).toBeFalsy();
+      expect(await readDoc("guides/advanced/usage.md")).toContain("# Usage");
+      expect(await exists("guides/img/flow.png")).toBe(true);
+    });
+  });
+
+  describe("redirects", () => {
+    const readRedirects = async () =>
+      JSON.parse(
+        await fs.readFile(path.join(testDocsDir, "redirects.json"), "utf-8")
+      );
+
+    it("should record moves, renames and folder moves with chains collapsed", async () => {
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+      await createSampleDocument(testDocsDir, "guides/setup.md", "# Setup\n");
+
+      await documentHandler.moveDocument("intro.md", "guides/intro.md");
+      await documentHandler.renameDocument("guides/intro.md", "overview");
+      await documentHandler.moveFolder("guides", "start");
+
+      expect(await readRedirects()).toEqual({
+        "guides/overview.md": "start/overview.md",
+        "guides/intro.md": "start/overview.md",
+        "guides/setup.md": "start/setup.md",
+        "intro.md": "start/overview.md",
+      });
+    });
+
+    it("should not record a dry run", async () => {
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+
+      await documentHandler.moveDocument(
+        "intro.md",
+        "guides/intro.md",
+        true,
+        false,
+        undefined,
+        true
+      );
+
+      await expect(
+        fs.access(path.join(testDocsDir, "redirects.json"))
+      ).rejects.toThrow();
+    });
+
+    it("should export redirects to a file", async () => {
+      await createSampleDocument(testDocsDir, "intro.md", "# Intro\n");
+      await documentHandler.moveDocument("intro.md", "guides/intro.md");
+
+      const result = await documentHandler.exportRedirects(
+        "netlify",
+        "/",
+        "_redirects"
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(result.metadata?.count).toBe(1);
+      expect(
+        await fs.readFile(path.join(testDocsDir, "_redirects"), "utf-8")
+      ).toBe("/intro/ /guides/intro/ 301\n");
+    });
+  });
+
+  describe("getBacklinks", () => {
+    beforeEach(async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "guides/setup.md",
+        "---\ntitle: Setup Guide\n---\n\n# Setup\n\n## Install\n\nSee [below](#install).\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "index.md",
+        "# Home\n\nStart with the [setup guide](guides/setup.md) first.\n\n" +
+          "Then [install](guides/setup.md#install) and read [[Setup Guide]].\n\n" +
+          "```\n[ignored](guides/setup.md)\n```\n"
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "reference/api.md",
+        "Details are in [[setup#Install|the install steps]].\n"
+      );
+      await fs.writeFile(
+        path.join(testDocsDir, "navigation.json"),
+        JSON.stringify([
+          {
+            title: "Guides",
+            path: "guides",
+            order: 0,
+            children: [
+              {
+                title: "Setup",
+                path: "guides/setup.md",
+                order: 1,
+                children: [],
+              },
+            ],
+          },
+        ])
+      );
+    });
+
+    it("should return every link to a document with its text and context", async () => {
+      const result = await documentHandler.getBacklinks("guides/setup.md");
+
+      expect(result.isError).toBeUndefined();
+      expect(result.metadata?.backlinks).toEqual([
+        {
+          file: "guides/setup.md",
+          line: 9,
+          kind: "inline",
+          text: "below",
+          url: "#install",
+          anchor: "install",
+          context: "See [below](#install).",
+        },
+        {
+          file: "index.md",
+          line: 3,
+          kind: "inline",
+          text: "setup guide",
+          url: "guides/setup.md",
+          context: "Start with the [setup guide](guides/setup.md) first.",
+        },
+        {
+          file: "index.md",
+          line: 5,
+          kind: "inline",
+          text: "install",
+          url: "guides/setup.md#install",
+          anchor: "install",
+          context:
+            "Then [install](guides/setup.md#install) and read [[Setup Guide]].",
+        },
+        expect.objectContaining({
+          file: "index.md",
+          line: 5,
+          kind: "wiki",
+          url: "[[Setup Guide]]",
+        }),
+        expect.objectContaining({
+          file: "reference/api.md",
+          kind: "wiki",
+          text: "the install steps",
+          anchor: "Install",
+        }),
+      ]);
+      expect(result.metadata?.navigationEntries).toEqual([
+        { title: "Setup", path: "guides/setup.md", trail: ["Guides"] },
+      ]);
+      expect(result.content[0].text).toContain(
+        "Found 5 links to guides/setup.md in 3 documents"
+      );
+    });
+
+    it("should only return links to the given anchor", async () => {
+      const result = await documentHandler.getBacklinks(
+        "guides/setup.md#Install"
+      );
+
+      expect(
+        result.metadata?.backlinks.map(
+          (backlink: { file: string; line: number }) =>
+            `${backlink.file}:${backlink.line}`
+        )
+      ).toEqual(["guides/setup.md:9", "index.md:5", "reference/api.md:1"]);
+      expect(result.metadata?.navigationEntries).toEqual([]);
+    });
+
+    it("should shorten the context of links in long lines", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "long.md",
+        `${"a".repeat(200)} [setup](guides/setup.md) ${"b".repeat(200)}\n`
+      );
+
+      const result = await documentHandler.getBacklinks("guides/setup.md");
+      const backlink = result.metadata?.backlinks.find(
+        (backlink: { file: string }) => backlink.file === "long.md"
+      );
+
+      expect(backlink.context).toBe(
+        `…${"a".repeat(79)} [setup](guides/setup.md) ${"b".repeat(79)}…`
+      );
+    });
+  });
+
+  describe("parseFrontmatter", () => {
+    it("should still be exported from the document handler module", () => {
+      const { frontmatter, content } = parseFrontmatter(
+        "---\ntitle: Doc\n---\n\nBody\n"
+      );
+
+      expect(frontmatter).toEqual({ title: "Doc" });
+      expect(content).toBe("\nBody\n");
+    });
   });
 });
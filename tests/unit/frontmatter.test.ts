@@ -0,0 +1,442 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyFrontmatterOperations,
+  applyMigrationRule,
+  parseFrontmatter,
+  stringifyFrontmatter,
+  updateFrontmatter,
+} from "../../src/utils/frontmatter";
+import {
+  FrontmatterOperationSchema,
+  MigrateFrontmatterSchema,
+} from "../../src/schemas/tools";
+
+const sample = `---
+# Document settings
+title: "Getting Started" # shown in navigation
+order: 2
+draft: false
+tags:
+  - guide
+  - setup
+author:
+  name: Jane
+  email: jane@example.com
+summary: |
+  First line
+  Second line
+---
+
+# Getting Started
+`;
+
+describe("Frontmatter Utilities", () => {
+  describe("parseFrontmatter", () => {
+    it("should parse typed values, block lists and nested maps", () => {
+      const { frontmatter, content } = parseFrontmatter(sample);
+
+      expect(frontmatter).toEqual({
+        title: "Getting Started",
+        order: 2,
+        draft: false,
+        tags: ["guide", "setup"],
+        author: { name: "Jane", email: "jane@example.com" },
+        summary: "First line\nSecond line\n",
+      });
+      expect(content).toBe("\n# Getting Started\n");
+    });
+
+    it("should return empty metadata for documents without frontmatter", () => {
+      const result = parseFrontmatter("# Title\n\nBody\n");
+
+      expect(result.frontmatter).toEqual({});
+      expect(result.content).toBe("# Title\n\nBody\n");
+      expect(result.raw).toBe("");
+    });
+
+    it("should report errors for invalid YAML", () => {
+      const result = parseFrontmatter("---\ntitle: [unclosed\n---\n");
+
+      expect(result.frontmatter).toEqual({});
+      expect(result.errors.length).toBeGreaterThan(0);
+    });
+
+    it("should handle CRLF line endings", () => {
+      const result = parseFrontmatter("---\r\ntitle: Test\r\n---\r\nBody");
+
+      expect(result.frontmatter.title).toBe("Test");
+      expect(result.content).toBe("Body");
+    });
+  });
+
+  describe("stringifyFrontmatter", () => {
+    it("should return the document unchanged when metadata is unchanged", () => {
+      const parsed = parseFrontmatter(sample);
+      expect(stringifyFrontmatter(parsed, { ...parsed.frontmatter })).toBe(
+        sample
+      );
+    });
+
+    it("should refuse to rewrite invalid frontmatter", () => {
+      const parsed = parseFrontmatter("---\ntitle: [unclosed\n---\n");
+      expect(() => stringifyFrontmatter(parsed, { title: "x" })).toThrow(
+        "Cannot update invalid frontmatter"
+      );
+    });
+
+    it("should leave invalid frontmatter alone when nothing changed", () => {
+      const content = "---\nbad: [unclosed\n---\n\n# Doc\n";
+      const parsed = parseFrontmatter(content);
+      expect(stringifyFrontmatter(parsed, { ...parsed.frontmatter })).toBe(
+        content
+      );
+    });
+  });
+
+  describe("updateFrontmatter", () => {
+    it("should keep comments, quoting and key order", () => {
+      const updated = updateFrontmatter(sample, (frontmatter) => {
+        frontmatter.title = "Quick Start";
+        frontmatter.order = 5;
+      });
+
+      expect(updated).toContain("# Document settings");
+      expect(updated).toContain('title: "Quick Start" # shown in navigation');
+      expect(updated).toContain("order: 5");
+      expect(updated.indexOf("title:")).toBeLessThan(updated.indexOf("order:"));
+      expect(updated).toContain("summary: |\n  First line\n  Second line");
+      expect(updated.endsWith("---\n\n# Getting Started\n")).toBe(true);
+    });
+
+    it("should append new keys and remove deleted keys", () => {
+      const updated = updateFrontmatter(sample, (frontmatter) => {
+        delete frontmatter.author;
+        frontmatter.status = "draft";
+      });
+
+      const { frontmatter } = parseFrontmatter(updated);
+      expect(frontmatter.author).toBeUndefined();
+      expect(Object.keys(frontmatter).pop()).toBe("status");
+      expect(updated).not.toContain("jane@example.com");
+    });
+
+    it("should quote strings that would otherwise change type", () => {
+      const updated = updateFrontmatter(sample, (frontmatter) => {
+        frontmatter.version = "1.0";
+      });
+
+      expect(parseFrontmatter(updated).frontmatter.version).toBe("1.0");
+    });
+
+    it("should create a frontmatter block when none exists", () => {
+      const updated = updateFrontmatter("# Title\n", (frontmatter) => {
+        frontmatter.order = 1;
+      });
+
+      expect(updated).toBe("---\norder: 1\n---\n\n# Title\n");
+    });
+  });
+
+  describe("TOML frontmatter", () => {
+    const tomlDoc = `+++
+title = "Hugo Page" # page title
+date = 2024-01-15
+tags = ["hugo", "toml"]
+
+[params]
+weight = 3
++++
+
+# Hugo Page
+`;
+
+    it("should parse +++ delimited frontmatter", () => {
+      const result = parseFrontmatter(tomlDoc);
+
+      expect(result.format).toBe("toml");
+      expect(result.frontmatter).toEqual({
+        title: "Hugo Page",
+        date: "2024-01-15",
+        tags: ["hugo", "toml"],
+        params: { weight: 3 },
+      });
+      expect(result.content).toBe("\n# Hugo Page\n");
+    });
+
+    it("should edit top-level keys in place and write back TOML", () => {
+      const updated = updateFrontmatter(tomlDoc, (frontmatter) => {
+        frontmatter.order = 2;
+        delete frontmatter.tags;
+      });
+
+      expect(updated).toBe(`+++
+title = "Hugo Page" # page title
+date = 2024-01-15
+order = 2
+
+[params]
+weight = 3
++++
+
+# Hugo Page
+`);
+    });
+
+    it("should edit keys inside tables in place", () => {
+      const updated = updateFrontmatter(tomlDoc, (frontmatter) => {
+        frontmatter.params.weight = 4;
+        frontmatter.params.draft = true;
+      });
+
+      expect(updated).toBe(`+++
+title = "Hugo Page" # page title
+date = 2024-01-15
+tags = ["hugo", "toml"]
+
+[params]
+weight = 4
+draft = true
++++
+
+# Hugo Page
+`);
+    });
+
+    it("should refuse changes that would rewrite the block", () => {
+      const doc = `+++
+title = "Page"
+author = { name = "Ada" }
++++
+`;
+
+      expect(() =>
+        updateFrontmatter(doc, (frontmatter) => {
+          frontmatter.author.name = "Grace";
+        })
+      ).toThrow("Cannot update author.name in TOML frontmatter");
+    });
+  });
+
+  describe("JSON frontmatter", () => {
+    const jsonDoc = `{
+    "title": "JSON Page",
+    "tags": ["json"]
+}
+
+# JSON Page
+`;
+
+    it("should parse a leading JSON object", () => {
+      const result = parseFrontmatter(jsonDoc);
+
+      expect(result.format).toBe("json");
+      expect(result.frontmatter).toEqual({
+        title: "JSON Page",
+        tags: ["json"],
+      });
+      expect(result.content).toBe("\n# JSON Page\n");
+    });
+
+    it("should write back JSON with the original indentation", () => {
+      const updated = updateFrontmatter(jsonDoc, (frontmatter) => {
+        frontmatter.order = 1;
+      });
+
+      expect(updated).toBe(`{
+    "title": "JSON Page",
+    "tags": [
+        "json"
+    ],
+    "order": 1
+}
+
+# JSON Page
+`);
+    });
+
+    it("should ignore content that merely starts with a brace", () => {
+      const result = parseFrontmatter("{not json}\n\nText\n");
+
+      expect(result.format).toBeNull();
+      expect(result.frontmatter).toEqual({});
+      expect(result.content).toBe("{not json}\n\nText\n");
+    });
+  });
+
+  describe("applyFrontmatterOperations", () => {
+    it("should set, unset and update nested fields", () => {
+      const result = applyFrontmatterOperations(
+        { title: "Doc", author: { name: "Jane" }, draft: true },
+        [
+          { op: "set", key: "status", value: "review" },
+          { op: "set", key: "author.email", value: "jane@example.com" },
+          { op: "unset", key: "draft" },
+          { op: "unset", key: "missing.field" },
+        ]
+      );
+
+      expect(result).toEqual({
+        title: "Doc",
+        author: { name: "Jane", email: "jane@example.com" },
+        status: "review",
+      });
+    });
+
+    it("should append new values and remove existing ones", () => {
+      const result = applyFrontmatterOperations({ tags: ["a", "b"] }, [
+        { op: "append", key: "tags", value: ["b", "c", "c"] },
+        { op: "remove", key: "tags", value: "a" },
+        { op: "append", key: "aliases", value: "old-name" },
+      ]);
+
+      expect(result).toEqual({ tags: ["b", "c"], aliases: ["old-name"] });
+    });
+
+    it("should refuse to append to a non-array field", () => {
+      expect(() =>
+        applyFrontmatterOperations({ tags: "a" }, [
+          { op: "append", key: "tags", value: "b" },
+        ])
+      ).toThrow("Field tags is not an array");
+    });
+
+    it("should reject keys that reach the object prototype", () => {
+      for (const key of [
+        "__proto__.polluted",
+        "constructor.prototype.polluted",
+        "author.__proto__",
+      ]) {
+        expect(() =>
+          applyFrontmatterOperations({ title: "x", author: {} }, [
+            { op: "set", key, value: "yes" },
+          ])
+        ).toThrow("Invalid field name");
+      }
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(
+        FrontmatterOperationSchema.safeParse({
+          op: "set",
+          key: "__proto__.polluted",
+          value: "yes",
+        }).success
+      ).toBe(false);
+    });
+
+    it("should only walk into the document's own fields", () => {
+      expect(
+        applyFrontmatterOperations({ title: "x" }, [
+          { op: "set", key: "toString.value", value: 1 },
+        ])
+      ).toEqual({ title: "x", toString: { value: 1 } });
+    });
+  });
+
+  describe("applyMigrationRule", () => {
+    it("should reject keys that reach the object prototype", () => {
+      expect(() =>
+        applyMigrationRule(
+          { title: "x" },
+          { type: "rename", from: "title", to: "__proto__.polluted" }
+        )
+      ).toThrow("Invalid field name");
+      expect(() =>
+        applyMigrationRule(
+          { title: "x" },
+          { type: "map_values", key: "constructor.prototype", values: {} }
+        )
+      ).toThrow("Invalid field name");
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(
+        MigrateFrontmatterSchema.safeParse({
+          rules: [{ type: "rename", from: "title", to: "__proto__.x" }],
+        }).success
+      ).toBe(false);
+    });
+
+    it("should rename keys in place without overwriting", () => {
+      const frontmatter = { title: "Doc", author: "jane", order: 1 };
+
+      expect(
+        applyMigrationRule(frontmatter, {
+          type: "rename",
+          from: "author",
+          to: "owners",
+        })
+      ).toBe(true);
+      expect(Object.keys(frontmatter)).toEqual(["title", "owners", "order"]);
+
+      expect(
+        applyMigrationRule(frontmatter, {
+          type: "rename",
+          from: "title",
+          to: "order",
+        })
+      ).toBe(false);
+    });
+
+    it("should map values, including array elements", () => {
+      const frontmatter = { status: "done", tags: ["old", "keep"] };
+
+      applyMigrationRule(frontmatter, {
+        type: "map_values",
+        key: "status",
+        values: { done: "published" },
+      });
+      applyMigrationRule(frontmatter, {
+        type: "map_values",
+        key: "tags",
+        values: { old: "new" },
+      });
+
+      expect(frontmatter).toEqual({
+        status: "published",
+        tags: ["new", "keep"],
+      });
+    });
+
+    it("should coerce values and skip ones that cannot be converted", () => {
+      const frontmatter = {
+        order: "3",
+        draft: "yes",
+        owners: "jane",
+        date: "March 5, 2023",
+        weight: "heavy",
+      };
+
+      const rules = [
+        { key: "order", to: "number" },
+        { key: "draft", to: "boolean" },
+        { key: "owners", to: "array" },
+        { key: "date", to: "date" },
+        { key: "weight", to: "number" },
+      ] as const;
+      const changed = rules.map((rule) =>
+        applyMigrationRule(frontmatter, { type: "coerce", ...rule })
+      );
+
+      expect(changed).toEqual([true, true, true, true, false]);
+      expect(frontmatter).toEqual({
+        order: 3,
+        draft: true,
+        owners: ["jane"],
+        date: "2023-03-05",
+        weight: "heavy",
+      });
+    });
+
+    it("should keep a renamed key in place when writing YAML", () => {
+      const updated = updateFrontmatter(
+        "---\ntitle: Doc\nauthor: jane # owner\norder: 1\n---\n",
+        (frontmatter) => {
+          applyMigrationRule(frontmatter, {
+            type: "rename",
+            from: "author",
+            to: "owners",
+          });
+        }
+      );
+
+      expect(updated).toBe("---\ntitle: Doc\nowners: jane\norder: 1\n---\n");
+    });
+  });
+});
@@ -152,6 +152,86 @@ This document has a [broken link](non-existent.md).
       }
     });
 
+    it("should report missing anchors as a separate issue type", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "doc.md",
+        `---
+title: Doc
+description: A document
+status: published
+---
+
+# Doc
+
+See [setup](#setup) and [missing](missing.md).
+`
+      );
+
+      const result = await healthCheckHandler.checkDocumentationHealth("");
+
+      expect(result.metadata?.brokenLinks).toBe(1);
+      expect(result.metadata?.brokenAnchors).toBe(1);
+      expect(result.metadata?.issues).toContainEqual(
+        expect.objectContaining({
+          path: "doc.md",
+          type: "broken_anchor",
+          severity: "warning",
+          line: 9,
+        })
+      );
+    });
+
+    it("should report metadata schema violations as typed issues", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "frontmatter.schema.json",
+        JSON.stringify({ fields: { order: { type: "number" } } })
+      );
+      await createSampleDocument(
+        testDocsDir,
+        "doc.md",
+        `---
+title: Doc
+description: A document
+status: published
+order: first
+---
+
+# Doc
+`
+      );
+
+      const result = await healthCheckHandler.checkDocumentationHealth("");
+
+      expect(result.metadata?.issues).toEqual([
+        expect.objectContaining({
+          path: "doc.md",
+          type: "invalid_metadata_type",
+          field: "order",
+          expected: "number",
+          actual: "string",
+        }),
+      ]);
+    });
+
+    it("should report an invalid metadata schema instead of a score", async () => {
+      await createSampleDocument(
+        testDocsDir,
+        "frontmatter.schema.json",
+        "{ not json"
+      );
+      await createSampleDocument(testDocsDir, "doc.md", "# Doc\n");
+
+      const result = await healthCheckHandler.checkDocumentationHealth("");
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "Invalid frontmatter.schema.json"
+      );
+      expect(result.metadata?.score).toBeUndefined();
+    });
+
     it("should handle empty documentation directory", async () => {
       // Check documentation health with no documents
       const result = await healthCheckHandler.checkDocumentationHealth("");
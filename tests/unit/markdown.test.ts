@@ -0,0 +1,291 @@
+import { describe, it, expect } from "vitest";
+import {
+  findSection,
+  getSections,
+  parseMarkdown,
+  replaceRanges,
+  slugify,
+  splitLinkUrl,
+  splitWikiTarget,
+} from "../../src/utils/markdown";
+
+describe("Markdown Utilities", () => {
+  describe("parseMarkdown", () => {
+    it("should find headings with unique slugs and line numbers", () => {
+      const doc = parseMarkdown(`---
+title: Test
+---
+
+# Getting Started
+
+## Install \`npm\` package
+
+## Setup
+
+## Setup
+
+Overview
+--------
+`);
+
+      expect(doc.bodyStartLine).toBe(4);
+      expect(
+        doc.headings.map(({ level, text, slug, line }) => ({
+          level,
+          text,
+          slug,
+          line,
+        }))
+      ).toEqual([
+        {
+          level: 1,
+          text: "Getting Started",
+          slug: "getting-started",
+          line: 5,
+        },
+        {
+          level: 2,
+          text: "Install `npm` package",
+          slug: "install-npm-package",
+          line: 7,
+        },
+        { level: 2, text: "Setup", slug: "setup", line: 9 },
+        { level: 2, text: "Setup", slug: "setup-1", line: 11 },
+        { level: 2, text: "Overview", slug: "overview", line: 13 },
+      ]);
+    });
+
+    it("should ignore links and headings inside code", () => {
+      const doc = parseMarkdown(`# Title
+
+\`\`\`markdown
+# Not a heading
+[broken](missing.md)
+\`\`\`
+
+Use \`[text](path.md)\` to link.
+
+    [indented](code.md)
+
+[real](real.md)
+`);
+
+      expect(doc.headings).toHaveLength(1);
+      expect(doc.codeBlocks).toEqual([
+        { startLine: 3, endLine: 6, fenced: true, language: "markdown" },
+        { startLine: 10, endLine: 10, fenced: false },
+      ]);
+      expect(doc.links.map((link) => link.url)).toEqual(["real.md"]);
+      expect(doc.links[0].line).toBe(12);
+    });
+
+    it("should parse titles, angle brackets and nested brackets", () => {
+      const content = `See [a](b.md "Title"), [c](<my file.md>) and [[x] y](z.md).
+[![badge](badge.svg)](status.md) <https://example.com>
+`;
+      const doc = parseMarkdown(content);
+
+      expect(
+        doc.links.map(({ text, url, title, isImage, kind }) => ({
+          text,
+          url,
+          title,
+          isImage,
+          kind,
+        }))
+      ).toEqual([
+        {
+          text: "a",
+          url: "b.md",
+          title: "Title",
+          isImage: false,
+          kind: "inline",
+        },
+        {
+          text: "c",
+          url: "my file.md",
+          title: undefined,
+          isImage: false,
+          kind: "inline",
+        },
+        {
+          text: "[x] y",
+          url: "z.md",
+          title: undefined,
+          isImage: false,
+          kind: "inline",
+        },
+        {
+          text: "![badge](badge.svg)",
+          url: "status.md",
+          title: undefined,
+          isImage: false,
+          kind: "inline",
+        },
+        {
+          text: "badge",
+          url: "badge.svg",
+          title: undefined,
+          isImage: true,
+          kind: "inline",
+        },
+        {
+          text: "https://example.com",
+          url: "https://example.com",
+          title: undefined,
+          isImage: false,
+          kind: "autolink",
+        },
+      ]);
+
+      const link = doc.links[1];
+      expect(content.slice(link.urlStart, link.urlEnd)).toBe("my file.md");
+      expect(link.position).toEqual({ line: 1, column: 24, offset: 23 });
+    });
+
+    it("should resolve reference-style links against definitions", () => {
+      const content = `Read the [guide][Guide], the [api][] and [faq].
+
+Not a link: [unknown][nothing].
+
+[guide]: ./guide.md "The Guide"
+[API]: <api/index.md>
+[faq]: faq.md
+`;
+      const doc = parseMarkdown(content);
+
+      expect(
+        doc.definitions.map(({ label, url, line }) => [label, url, line])
+      ).toEqual([
+        ["guide", "./guide.md", 5],
+        ["api", "api/index.md", 6],
+        ["faq", "faq.md", 7],
+      ]);
+      expect(
+        doc.links.map(({ kind, url, reference }) => [kind, url, reference])
+      ).toEqual([
+        ["reference", "./guide.md", "guide"],
+        ["reference", "api/index.md", "api"],
+        ["reference", "faq.md", "faq"],
+      ]);
+
+      const definition = doc.definitions[1];
+      expect(content.slice(definition.urlStart, definition.urlEnd)).toBe(
+        "api/index.md"
+      );
+    });
+
+    it("should parse wiki-links and embeds", () => {
+      const content =
+        "See [[Setup Guide]], [[api/index#Auth|the API]] and ![[diagram.png]].\n" +
+        "`[[not a link]]`\n";
+      const doc = parseMarkdown(content);
+
+      expect(
+        doc.links.map(({ kind, text, url, isImage }) => ({
+          kind,
+          text,
+          url,
+          isImage,
+        }))
+      ).toEqual([
+        {
+          kind: "wiki",
+          text: "Setup Guide",
+          url: "Setup Guide",
+          isImage: false,
+        },
+        {
+          kind: "wiki",
+          text: "the API",
+          url: "api/index#Auth",
+          isImage: false,
+        },
+        {
+          kind: "wiki",
+          text: "diagram.png",
+          url: "diagram.png",
+          isImage: true,
+        },
+      ]);
+
+      const link = doc.links[1];
+      expect(content.slice(link.urlStart, link.urlEnd)).toBe("api/index#Auth");
+      expect(splitWikiTarget(link.url)).toEqual({
+        page: "api/index",
+        heading: "Auth",
+      });
+    });
+
+    it("should find src and href attributes in HTML tags", () => {
+      const content =
+        '<img src="images/logo.png" alt="Logo"> <a href=\'guide.md\'>Guide</a>\n';
+      const doc = parseMarkdown(content);
+
+      expect(
+        doc.links.map(({ kind, url, isImage }) => [kind, url, isImage])
+      ).toEqual([
+        ["html", "images/logo.png", true],
+        ["html", "guide.md", false],
+      ]);
+      expect(content.slice(doc.links[1].urlStart, doc.links[1].urlEnd)).toBe(
+        "guide.md"
+      );
+    });
+  });
+
+  describe("findSection", () => {
+    const sections = getSections(`# Docs
+
+## Installation
+
+### Linux
+
+## Usage
+
+### Linux
+`);
+
+    it("should find sections by anchor or heading path", () => {
+      expect(findSection(sections, "#usage")?.startLine).toBe(7);
+      expect(findSection(sections, "Usage > Linux")?.startLine).toBe(9);
+      expect(
+        findSection(sections, "docs > installation > linux")?.path
+      ).toEqual(["Docs", "Installation", "Linux"]);
+      expect(findSection(sections, "Installation > Usage")).toBeNull();
+    });
+  });
+
+  describe("slugify", () => {
+    it("should generate GitHub-style anchors", () => {
+      expect(slugify("What's New in v2.0?")).toBe("whats-new-in-v20");
+      expect(slugify("[Links](x.md) & *emphasis*")).toBe("links--emphasis");
+    });
+  });
+
+  describe("splitLinkUrl", () => {
+    it("should separate the path, query and fragment", () => {
+      expect(splitLinkUrl("guide.md?v=1#install")).toEqual({
+        path: "guide.md",
+        query: "?v=1",
+        fragment: "#install",
+      });
+      expect(splitLinkUrl("#top")).toEqual({
+        path: "",
+        query: "",
+        fragment: "#top",
+      });
+    });
+  });
+
+  describe("replaceRanges", () => {
+    it("should apply replacements regardless of order", () => {
+      expect(
+        replaceRanges("one two three", [
+          { start: 0, end: 3, text: "1" },
+          { start: 8, end: 13, text: "3" },
+        ])
+      ).toBe("1 two 3");
+    });
+  });
+});
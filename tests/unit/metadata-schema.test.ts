@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import path from "path";
+import {
+  loadMetadataSchema,
+  validateFrontmatter,
+  METADATA_SCHEMA_FILE,
+} from "../../src/utils/metadata-schema";
+import { MetadataSchemaFileSchema } from "../../src/schemas/metadata";
+import { createTestDocsDir, cleanupTestDocsDir } from "../test-utils";
+
+const schema = MetadataSchemaFileSchema.parse({
+  required: ["title", "status"],
+  fields: {
+    status: { type: "string", enum: ["draft", "review", "published"] },
+    date: { type: "date", format: "date" },
+    tags: { type: "array", items: "string" },
+    order: { type: "integer" },
+  },
+  folders: {
+    "api/**": { required: ["version"] },
+  },
+});
+
+describe("Metadata Schema Utilities", () => {
+  describe("validateFrontmatter", () => {
+    it("should accept metadata that matches the schema", () => {
+      const violations = validateFrontmatter(schema, "guide.md", {
+        title: "Guide",
+        status: "published",
+        date: "2024-05-01",
+        tags: ["a", "b"],
+        order: 2,
+      });
+
+      expect(violations).toEqual([]);
+    });
+
+    it("should report type, enum and format violations", () => {
+      const violations = validateFrontmatter(schema, "guide.md", {
+        title: "Guide",
+        status: "done",
+        date: "May 1st",
+        tags: ["a", 3],
+        order: 1.5,
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({
+          field: "status",
+          kind: "enum",
+          expected: '"draft" | "review" | "published"',
+          actual: '"done"',
+        }),
+        expect.objectContaining({
+          field: "date",
+          kind: "format",
+          actual: '"May 1st"',
+        }),
+        expect.objectContaining({
+          field: "tags",
+          kind: "type",
+          expected: "array of string",
+          actual: "array containing number",
+        }),
+        expect.objectContaining({
+          field: "order",
+          kind: "type",
+          expected: "integer",
+          actual: "number",
+        }),
+      ]);
+    });
+
+    it("should apply per-folder required fields", () => {
+      const metadata = { title: "Endpoint", status: "draft" };
+
+      expect(validateFrontmatter(schema, "guide.md", metadata)).toEqual([]);
+      expect(validateFrontmatter(schema, "api/users.md", metadata)).toEqual([
+        expect.objectContaining({ field: "version", kind: "missing" }),
+      ]);
+    });
+
+    it("should fall back to the default required fields without a schema", () => {
+      const violations = validateFrontmatter(null, "doc.md", { title: "T" });
+
+      expect(violations.map((violation) => violation.field)).toEqual([
+        "description",
+        "status",
+      ]);
+    });
+  });
+
+  describe("loadMetadataSchema", () => {
+    let testDocsDir: string;
+
+    beforeEach(async () => {
+      testDocsDir = await createTestDocsDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTestDocsDir(testDocsDir);
+    });
+
+    it("should return null when there is no schema file", async () => {
+      expect(await loadMetadataSchema(testDocsDir)).toBeNull();
+    });
+
+    it("should reject an invalid schema file", async () => {
+      await fs.writeFile(
+        path.join(testDocsDir, METADATA_SCHEMA_FILE),
+        JSON.stringify({ fields: { status: { type: "enum" } } })
+      );
+
+      await expect(loadMetadataSchema(testDocsDir)).rejects.toThrow(
+        `Invalid ${METADATA_SCHEMA_FILE}`
+      );
+    });
+  });
+});
@@ -1,6 +1,15 @@
 import { describe, it, expect, vi } from "vitest";
 import { expandHome, normalizePath } from "../../src/utils/path";
 import { safeLog } from "../../src/utils/logging";
+import { addRedirects, formatRedirects } from "../../src/utils/redirects";
+import {
+  JOURNAL_DIR,
+  MAX_JOURNAL_ENTRIES,
+  appendJournalEntry,
+  readJournal,
+} from "../../src/utils/journal";
+import fs from "fs/promises";
+import os from "os";
 import path from "path";
 
 describe("Path Utilities", () => {
@@ -74,3 +83,95 @@ describe("Logging Utilities", () => {
     });
   });
 });
+
+describe("Redirect Utilities", () => {
+  describe("addRedirects", () => {
+    it("should collapse chains to the current path", () => {
+      let redirects = addRedirects({}, [{ from: "a.md", to: "b.md" }]);
+      redirects = addRedirects(redirects, [{ from: "b.md", to: "c.md" }]);
+
+      expect(redirects).toEqual({ "a.md": "c.md", "b.md": "c.md" });
+    });
+
+    it("should stop redirecting a path that is in use again", () => {
+      let redirects = addRedirects({}, [{ from: "a.md", to: "b.md" }]);
+      redirects = addRedirects(redirects, [{ from: "b.md", to: "a.md" }]);
+
+      expect(redirects).toEqual({ "b.md": "a.md" });
+    });
+  });
+
+  describe("formatRedirects", () => {
+    const redirects = {
+      "guides/index.md": "start/index.md",
+      "guides/setup.md": "start/install.md",
+    };
+
+    it("should export Netlify redirects for directory URLs", () => {
+      expect(formatRedirects(redirects, "netlify", "/docs")).toBe(
+        "/docs/guides/ /docs/start/ 301\n" +
+          "/docs/guides/setup/ /docs/start/install/ 301\n"
+      );
+    });
+
+    it("should export an nginx map", () => {
+      expect(formatRedirects(redirects, "nginx")).toBe(
+        "map $uri $docs_redirect {\n" +
+          "    /guides/ /start/;\n" +
+          "    /guides/setup/ /start/install/;\n" +
+          "}\n"
+      );
+    });
+
+    it("should export MkDocs redirect maps with document paths", () => {
+      expect(formatRedirects(redirects, "mkdocs")).toBe(
+        "plugins:\n" +
+          "  - redirects:\n" +
+          "      redirect_maps:\n" +
+          '        "guides/index.md": "start/index.md"\n' +
+          '        "guides/setup.md": "start/install.md"\n'
+      );
+    });
+  });
+});
+
+describe("Journal Utilities", () => {
+  describe("appendJournalEntry", () => {
+    it("should number entries after the newest file and prune old ones", async () => {
+      const docsDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-journal-"));
+      const entry = {
+        timestamp: new Date().toISOString(),
+        tool: "write_document",
+        summary: "test",
+        files: [],
+        createdDirectories: [],
+      };
+
+      try {
+        await fs.mkdir(path.join(docsDir, JOURNAL_DIR), { recursive: true });
+        await fs.writeFile(
+          path.join(docsDir, JOURNAL_DIR, "000007.json"),
+          "corrupt"
+        );
+
+        const first = await appendJournalEntry(docsDir, entry);
+        expect(first.id).toBe(8);
+
+        for (let i = 0; i < MAX_JOURNAL_ENTRIES; i++) {
+          await appendJournalEntry(docsDir, entry);
+        }
+
+        const files = await fs.readdir(path.join(docsDir, JOURNAL_DIR));
+        expect(files).toHaveLength(MAX_JOURNAL_ENTRIES);
+        expect(files).not.toContain("000007.json");
+
+        const { entries, unreadable } = await readJournal(docsDir);
+        expect(unreadable).toEqual([]);
+        expect(entries[0].id).toBe(9);
+        expect(entries[entries.length - 1].id).toBe(8 + MAX_JOURNAL_ENTRIES);
+      } finally {
+        await fs.rm(docsDir, { recursive: true, force: true });
+      }
+    });
+  });
+});